@@ -3,7 +3,20 @@ import type { StreamTextResult, ToolSet, Output, GenerateTextResult } from "ai";
 import type { Signature } from "../signatures/signature";
 import { LM } from "../clients/lm";
 import { split_message_content_for_custom_types } from "./types";
-import { AdapterParseError } from "../exceptions";
+import { AdapterParseError, type AdapterParseAttempt } from "../exceptions";
+
+/**
+ * Retry policy for LM responses that cannot be parsed.
+ *
+ * @param max_attempts - The maximum number of LM calls, including the first one. Defaults to 1 (no retry).
+ */
+export interface RetryPolicy {
+  max_attempts: number;
+}
+
+export interface AdapterOptions {
+  retry?: Partial<RetryPolicy>;
+}
 
 /**
  * Base Adapter class.
@@ -12,6 +25,15 @@ import { AdapterParseError } from "../exceptions";
  * It handles the transformation from inputs to LM calls and back to structured outputs.
  */
 export abstract class Adapter {
+  /**
+   * How many times the LM is prompted when its response cannot be parsed.
+   */
+  public retry: RetryPolicy;
+
+  constructor({ retry }: AdapterOptions = {}) {
+    this.retry = { max_attempts: 1, ...retry };
+  }
+
   /**
    * Execute the adapter pipeline: format inputs, call LM, and parse outputs.
    *
@@ -22,6 +44,9 @@ export abstract class Adapter {
    * @param inputs - The current input values for this call. Keys must match the signature's input field names.
    *
    * @returns List of dictionaries representing parsed LM responses. Each dictionary contains keys matching the signature's output field names. For multiple generations (n > 1), returns multiple dictionaries.
+   *
+   * When the response cannot be parsed, the LM is prompted again with its bad response and the parse error as feedback,
+   * up to `retry.max_attempts` calls in total. The AdapterParseError then raised lists every failed attempt in `attempts`.
    */
   async run<
     I extends z.ZodObject<any>,
@@ -31,27 +56,74 @@ export abstract class Adapter {
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O, T>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<GenerateTextResult<T, Output.Output<z.infer<O>>>> {
     // TODO: return vercel AI SDK native response type
-    const messages = this.format(signature, demos, inputs);
-    const result = await lm.generateText({
-      messages,
-      tools: signature.tools,
-      ...lm_kwargs,
-    });
+    let messages: any[] = this.format(signature, demos, inputs);
+    const attempts: AdapterParseAttempt[] = [];
+
+    while (true) {
+      const result = await lm.generateText({
+        messages,
+        tools: signature.tools,
+        ...lm_kwargs,
+      });
 
-    // return native AI SDK response type with the output field replaced with adapter's structured output
-    const parsed = this.parse(signature, result.text);
-    return new Proxy(result, {
-      get(target, prop, receiver) {
-        if (prop === "output") {
-          return parsed;
+      let parsed: z.infer<O>;
+      try {
+        parsed = this.parse(signature, result.text);
+      } catch (e) {
+        if (!(e instanceof AdapterParseError)) {
+          throw e;
         }
-        return Reflect.get(target, prop, receiver);
-      },
-    }) as any;
+        attempts.push({
+          lm_response: e.lm_response,
+          message: e.message,
+          parsed_result: e.parsed_result,
+        });
+        if (attempts.length >= this.retry.max_attempts) {
+          e.attempts = attempts;
+          throw e;
+        }
+        // Re-prompt with the bad completion and why it could not be parsed
+        messages = [
+          ...messages,
+          { role: "assistant", content: result.text },
+          { role: "user", content: this.format_retry_feedback(signature, e) },
+        ];
+        continue;
+      }
+
+      // return native AI SDK response type with the output field replaced with adapter's structured output
+      return new Proxy(result, {
+        get(target, prop, receiver) {
+          if (prop === "output") {
+            return parsed;
+          }
+          return Reflect.get(target, prop, receiver);
+        },
+      }) as any;
+    }
+  }
+
+  /**
+   * Format the feedback sent to the LM after a response that could not be parsed.
+   *
+   * It follows the bad response in the conversation, so the LM can correct it on the next attempt.
+   *
+   * @param signature - The DSPy signature associated with this LM call.
+   * @param error - The error raised while parsing the previous response.
+   * @returns The content of the user message asking for a corrected response.
+   */
+  format_retry_feedback<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
+    signature: Signature<I, O>,
+    error: AdapterParseError
+  ): string {
+    return (
+      `Your previous response could not be parsed.\n\n${error.message}` +
+      "Respond again with all the output fields, in the required format."
+    );
   }
 
   /**
@@ -73,7 +145,7 @@ export abstract class Adapter {
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O, T>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<StreamTextResult<T, Output.Output<z.infer<O>>>> {
     const messages = this.format(signature, demos, inputs);
@@ -92,13 +164,16 @@ export abstract class Adapter {
       }
     })();
 
-    // Create a ReadableStream from the generator to be fully compatible with Vercel AI SDK's AsyncIterableStream
+    // Create a ReadableStream from the generator to be fully compatible with Vercel AI SDK's AsyncIterableStream.
+    // It pulls lazily so that iterating it and reading it as a stream never race for the same values.
     const readableStream = new ReadableStream({
-      async start(controller) {
-        for await (const value of generator) {
+      async pull(controller) {
+        const { value, done } = await generator.next();
+        if (done) {
+          controller.close();
+        } else {
           controller.enqueue(value);
         }
-        controller.close();
       },
     });
 
@@ -107,12 +182,21 @@ export abstract class Adapter {
       [Symbol.asyncIterator]: () => generator[Symbol.asyncIterator](),
     });
 
-    // return native AI SDK response type with the partialOutputStream field replaced with adapter's structured output stream
+    // The final output is parsed from the complete text once the stream finishes
+    let output: Promise<z.infer<O>> | undefined;
+
+    // return native AI SDK response type with the partialOutputStream and output fields replaced with adapter's structured output
     return new Proxy(result, {
       get(target, prop, receiver) {
         if (prop === "partialOutputStream") {
           return partialOutputStream;
         }
+        if (prop === "output") {
+          output ??= Promise.resolve(target.text).then((text) =>
+            self.parse(signature, text)
+          );
+          return output;
+        }
         return Reflect.get(target, prop, receiver);
       },
     }) as any;
@@ -156,7 +240,7 @@ export abstract class Adapter {
    */
   format<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
     signature: Signature<I, O>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): { role: "system" | "user" | "assistant"; content: string }[] {
     // NOTE: aligned with dspy [x]
@@ -341,12 +425,12 @@ export abstract class Adapter {
    */
   format_demos<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
     signature: Signature<I, O>,
-    demos: any[],
+    demos: Record<string, any>[],
     context: Record<string, { type: z.ZodType; value: any }>
   ): { role: "user" | "assistant"; content: string }[] {
     // NOTE: aligned with dspy [x]
-    const complete_demos = [];
-    const incomplete_demos = [];
+    const complete_demos: any[] = [];
+    const incomplete_demos: any[] = [];
 
     for (const demo of demos) {
       // Check if all fields are present and not None
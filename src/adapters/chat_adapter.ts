@@ -1,6 +1,6 @@
 import { z } from "zod";
 import type { StreamTextResult, ToolSet, Output, GenerateTextResult } from "ai";
-import { Adapter } from "./base";
+import { Adapter, type AdapterOptions } from "./base";
 import type { Signature } from "../signatures/signature";
 import { LM } from "../clients/lm";
 import {
@@ -11,7 +11,11 @@ import {
   translate_field_type,
   get_annotation_name,
 } from "./utils";
-import { AdapterParseError } from "../exceptions";
+import {
+  to_openai_messages,
+  type FinetuneRecord,
+} from "../clients/utils_finetune";
+import { AdapterParseError, ContextWindowExceededError } from "../exceptions";
 /**
  * ChatAdapter implements the DSPy-style chat interaction pattern.
  * It uses specialized markers [[ ## field_name ## ]] to structure inputs and outputs
@@ -25,8 +29,11 @@ import { AdapterParseError } from "../exceptions";
 // the extra ^ at the beginning is because match in python and match in js behave differently. This ensures they behave the same.
 const FIELD_HEADER_PATTERN = /^\[\[ ## (\w+) ## \]\]/;
 export class ChatAdapter extends Adapter {
-  constructor(use_json_adapter_fallback: boolean = true) {
-    super();
+  constructor(
+    use_json_adapter_fallback: boolean = true,
+    options: AdapterOptions = {}
+  ) {
+    super(options);
     this.use_json_adapter_fallback = use_json_adapter_fallback;
   }
 
@@ -40,7 +47,7 @@ export class ChatAdapter extends Adapter {
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O, T>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<GenerateTextResult<T, Output.Output<z.infer<O>>>> {
     try {
@@ -48,13 +55,28 @@ export class ChatAdapter extends Adapter {
     } catch (e) {
       // Fallback to JSONAdapter logic
       const { JSONAdapter } = await import("./json_adapter");
-      if (this instanceof JSONAdapter || !this.use_json_adapter_fallback) {
+      if (
+        e instanceof ContextWindowExceededError ||
+        this instanceof JSONAdapter ||
+        !this.use_json_adapter_fallback
+      ) {
         // On context window exceeded error, already using JSONAdapter, or use_json_adapter_fallback is False
         // we don't want to retry with a different adapter. Raise the original error instead of the fallback error.
         throw e;
       }
-      const jsonAdapter = new JSONAdapter();
-      return await jsonAdapter.run(lm, lm_kwargs, signature, demos, inputs);
+      const jsonAdapter = new JSONAdapter(true, { retry: this.retry });
+      try {
+        return await jsonAdapter.run(lm, lm_kwargs, signature, demos, inputs);
+      } catch (json_error) {
+        // Report the failed attempts of both adapters
+        if (
+          e instanceof AdapterParseError &&
+          json_error instanceof AdapterParseError
+        ) {
+          json_error.attempts = [...e.attempts, ...json_error.attempts];
+        }
+        throw json_error;
+      }
     }
   }
 
@@ -66,7 +88,7 @@ export class ChatAdapter extends Adapter {
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O, T>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<StreamTextResult<T, Output.Output<z.infer<O>>>> {
     try {
@@ -75,11 +97,15 @@ export class ChatAdapter extends Adapter {
       // Fallback to JSONAdapter logic
       const { JSONAdapter } = await import("./json_adapter");
 
-      if (this instanceof JSONAdapter || !this.use_json_adapter_fallback) {
+      if (
+        e instanceof ContextWindowExceededError ||
+        this instanceof JSONAdapter ||
+        !this.use_json_adapter_fallback
+      ) {
         throw e;
       }
 
-      const jsonAdapter = new JSONAdapter();
+      const jsonAdapter = new JSONAdapter(true, { retry: this.retry });
       return await jsonAdapter.stream(lm, lm_kwargs, signature, demos, inputs);
     }
   }
@@ -215,6 +241,19 @@ export class ChatAdapter extends Adapter {
     return message;
   }
 
+  /**
+   * Asks for the output fields again with the same reminder as `user_message_output_requirements`.
+   */
+  override format_retry_feedback<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>, error: AdapterParseError): string {
+    return (
+      `Your previous response could not be parsed.\n\n${error.message}` +
+      this.user_message_output_requirements(signature)
+    );
+  }
+
   /**
    * NOTE: aligned with dspy [x]
    */
@@ -319,19 +358,24 @@ export class ChatAdapter extends Adapter {
       .join("\n\n");
   }
   /**
+   * Formats a call as a line of an OpenAI chat fine-tuning file. The tool calls and results of
+   * `response_messages` (the `response.messages` of the LM result) come before the final answer.
+   *
    * NOTE: aligned with dspy [x]
    */
   format_finetune_data<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
     signature: Signature<I, O>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>,
-    outputs: z.infer<O>
-  ): { messages: { role: string; content: string }[] } {
-    const messages = (this.format(signature, demos, inputs) as any[]).map(
-      (m) => ({
-        role: m.role,
-        content: m.content,
-      })
+    outputs: z.infer<O>,
+    response_messages: any[] = []
+  ): FinetuneRecord {
+    const messages = to_openai_messages(this.format(signature, demos, inputs));
+    const last_tool_message = response_messages.findLastIndex(
+      (m) => m.role === "tool"
+    );
+    messages.push(
+      ...to_openai_messages(response_messages.slice(0, last_tool_message + 1))
     );
     messages.push({
       role: "assistant",
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import {
+  NoObjectGeneratedError,
   Output,
   type StreamTextResult,
   type ToolSet,
@@ -15,14 +16,16 @@ import {
   get_annotation_name,
   parseValue,
 } from "./utils";
-import { AdapterParseError } from "../exceptions";
+import { AdapterParseError, type AdapterParseAttempt } from "../exceptions";
 
 /**
  * JSONAdapter is an adapter that uses the AI SDK's structured output
  * capabilities (via the `output` parameter in generateText/streamText).
  *
  * It formats the inputs and demos using the DSPy chat interaction pattern
- * but ensures assistant messages are formatted as JSON.
+ * but ensures assistant messages are formatted as JSON. Responses that don't match the output
+ * schema are retried with feedback, up to `retry.max_attempts` calls, and then raise an
+ * AdapterParseError.
  */
 export class JSONAdapter extends ChatAdapter {
   /**
@@ -44,27 +47,59 @@ export class JSONAdapter extends ChatAdapter {
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O, T>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<GenerateTextResult<T, Output.Output<z.infer<O>>>> {
     const output = this.getOutputSpec(signature.output);
-    const messages = this.format(signature, demos, inputs);
-
-    const result = (await lm.generateText({
-      messages,
-      output,
-      tools: signature.tools,
-      ...lm_kwargs,
-    })) as any;
-
-    return result;
+    let messages: any[] = this.format(signature, demos, inputs);
+    const attempts: AdapterParseAttempt[] = [];
+
+    while (true) {
+      try {
+        return (await lm.generateText({
+          messages,
+          output,
+          tools: signature.tools,
+          ...lm_kwargs,
+        })) as any;
+      } catch (e) {
+        if (!NoObjectGeneratedError.isInstance(e)) {
+          throw e;
+        }
+        const error = new AdapterParseError(
+          "JSONAdapter",
+          signature,
+          e.text ?? "",
+          e.message
+        );
+        attempts.push({
+          lm_response: error.lm_response,
+          message: error.message,
+          parsed_result: null,
+        });
+        if (attempts.length >= this.retry.max_attempts) {
+          error.attempts = attempts;
+          error.cause = e;
+          throw error;
+        }
+        // Re-prompt with the bad completion and why it could not be parsed
+        messages = [
+          ...messages,
+          { role: "assistant", content: error.lm_response },
+          {
+            role: "user",
+            content: this.format_retry_feedback(signature, error),
+          },
+        ];
+      }
+    }
   }
 
   override async stream<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
     lm: LM,
     lm_kwargs: any,
     signature: Signature<I, O>,
-    demos: any[],
+    demos: Record<string, any>[],
     inputs: z.infer<I>
   ): Promise<StreamTextResult<any, any>> {
     const output = this.getOutputSpec(signature.output);
@@ -0,0 +1,316 @@
+import { z } from "zod";
+import {
+  NoObjectGeneratedError,
+  NoOutputGeneratedError,
+  type StreamTextResult,
+  type ToolSet,
+  type Output,
+  type GenerateTextResult,
+  type LanguageModelUsage,
+} from "ai";
+import { Adapter, type AdapterOptions } from "./base";
+import { JSONAdapter } from "./json_adapter";
+import { Signature } from "../signatures/signature";
+import { LM } from "../clients/lm";
+import {
+  getFields,
+  get_field_description_string,
+  format_field_value,
+  formatFieldValue,
+} from "./utils";
+import { is_custom_type } from "./types";
+import { AdapterParseError } from "../exceptions";
+
+/**
+ * TwoStepAdapter is an adapter for reasoning models that struggle to follow a structured format,
+ * matching dspy.TwoStepAdapter.
+ *
+ * 1. The main LM is prompted with a natural-language description of the task, without any
+ *    field markers, and answers freely.
+ * 2. A smaller extraction LM is then called with JSONAdapter to extract the output fields
+ *    from that answer.
+ *
+ * The returned result is the main LM's result with `output` replaced by the extracted fields,
+ * and with the usage and steps of the extraction call added, so both calls are accounted for.
+ * The `retry` policy applies to the extraction call.
+ *
+ * @example
+ * ```ts
+ * configure({
+ *   lm: new LM(openai("o3")),
+ *   adapter: new TwoStepAdapter(new LM(openai("gpt-4o-mini"))),
+ * });
+ * ```
+ */
+export class TwoStepAdapter extends Adapter {
+  constructor(public extraction_model: LM, options: AdapterOptions = {}) {
+    super(options);
+  }
+
+  override async run<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>,
+    T extends ToolSet
+  >(
+    lm: LM,
+    lm_kwargs: any,
+    signature: Signature<I, O, T>,
+    demos: Record<string, any>[],
+    inputs: z.infer<I>
+  ): Promise<GenerateTextResult<T, Output.Output<z.infer<O>>>> {
+    const messages = this.format(signature, demos, inputs);
+    const result = await lm.generateText({
+      messages,
+      tools: signature.tools,
+      ...lm_kwargs,
+    });
+
+    let extraction: GenerateTextResult<ToolSet, any>;
+    try {
+      extraction = await new JSONAdapter(true, { retry: this.retry }).run(
+        this.extraction_model,
+        {},
+        this._create_extractor_signature(signature),
+        [],
+        { text: result.text }
+      );
+    } catch (e) {
+      // Other errors (e.g. network errors or context window overflows) are not parse failures
+      if (
+        !(e instanceof AdapterParseError) &&
+        !NoObjectGeneratedError.isInstance(e) &&
+        !NoOutputGeneratedError.isInstance(e)
+      ) {
+        throw e;
+      }
+      const error = new AdapterParseError(
+        "TwoStepAdapter",
+        signature,
+        result.text,
+        `Failed to extract the output fields from the LM response with the extraction model. Error message: ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      );
+      if (e instanceof AdapterParseError) {
+        error.attempts = e.attempts;
+      }
+      throw error;
+    }
+
+    const totalUsage = add_usage(
+      result.totalUsage ?? result.usage,
+      extraction.totalUsage ?? extraction.usage
+    );
+    const steps = [...(result.steps ?? []), ...(extraction.steps ?? [])];
+
+    // return the main LM's response with the output field replaced with the extracted output
+    return new Proxy(result, {
+      get(target, prop, receiver) {
+        if (prop === "output") {
+          return extraction.output;
+        }
+        if (prop === "totalUsage") {
+          return totalUsage;
+        }
+        if (prop === "steps") {
+          return steps;
+        }
+        return Reflect.get(target, prop, receiver);
+      },
+    }) as any;
+  }
+
+  override async stream<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>,
+    T extends ToolSet
+  >(
+    lm: LM,
+    lm_kwargs: any,
+    signature: Signature<I, O, T>,
+    demos: Record<string, any>[],
+    inputs: z.infer<I>
+  ): Promise<StreamTextResult<T, Output.Output<z.infer<O>>>> {
+    throw new Error(
+      "TwoStepAdapter does not support streaming: the output fields are only extracted once the main LM finishes."
+    );
+  }
+
+  /**
+   * The task is described in natural language in the task description instead.
+   */
+  override format_field_description<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>): string {
+    return "";
+  }
+
+  /**
+   * The main LM is not asked to follow any structure.
+   */
+  override format_field_structure<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>): string {
+    return "";
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_task_description<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>): string {
+    const parts = [
+      "You are a helpful assistant that can solve tasks based on user input.",
+      "As input, you will be provided with:\n" +
+        get_field_description_string(getFields(signature.input)),
+      "Your outputs must contain:\n" +
+        get_field_description_string(getFields(signature.output)),
+      "You should lay out your outputs in detail so that your answer can be understood by another agent",
+    ];
+
+    if (signature.instructions) {
+      parts.push(`Specific instructions: ${signature.instructions}`);
+    }
+
+    return parts.join("\n");
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_user_message_content<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(
+    signature: Signature<I, O>,
+    inputs: z.infer<I>,
+    context: Record<string, { type: z.ZodType; value: any }>,
+    {
+      prefix = "",
+      suffix = "",
+    }: { prefix?: string; suffix?: string; main_request?: boolean } = {}
+  ): string {
+    const parts = [prefix];
+
+    for (const [name, type] of Object.entries(getFields(signature.input))) {
+      if (name in inputs) {
+        // Custom types are replaced with placeholders, so images and files are still split into their own blocks
+        const value = is_custom_type(type as z.ZodType)
+          ? format_field_value(type as z.ZodType, inputs[name], context)
+          : formatFieldValue(inputs[name]);
+        parts.push(`${name}: ${value}`);
+      }
+    }
+
+    parts.push(suffix);
+    return parts.filter(Boolean).join("\n\n").trim();
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_assistant_message_content<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(
+    signature: Signature<I, O>,
+    outputs: z.infer<O>,
+    options?: { missing_field_message?: string }
+  ): string {
+    const parts = [];
+
+    for (const name of Object.keys(getFields(signature.output))) {
+      if (name in outputs) {
+        parts.push(
+          `${name}: ${formatFieldValue(
+            outputs[name] ?? options?.missing_field_message
+          )}`
+        );
+      }
+    }
+
+    return parts.join("\n\n").trim();
+  }
+
+  /**
+   * The output fields are extracted with the extraction model in `run`, which needs an LM call.
+   */
+  override parse<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
+    signature: Signature<I, O>,
+    completion: string,
+    allow_partial_output: boolean = false
+  ): z.infer<O> {
+    throw new Error(
+      "TwoStepAdapter parses LM responses with its extraction model in run()."
+    );
+  }
+
+  /**
+   * Creates the signature of the extraction step: the text answered by the main LM
+   * as the only input, and the original output fields.
+   *
+   * NOTE: aligned with dspy [x]
+   */
+  _create_extractor_signature<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(
+    signature: Signature<I, O>
+  ): Signature<z.ZodObject<{ text: z.ZodString }>, O> {
+    const outputs_str = Object.keys(signature.output_fields)
+      .map((field) => `\`${field}\``)
+      .join(", ");
+
+    return new Signature({
+      instructions:
+        `The input is a text that should contain all the necessary information to produce the fields ${outputs_str}. ` +
+        "Your job is to extract the fields from the text verbatim. Extract precisely the appropriate value (content) for each field.",
+      input: z.object({ text: z.string() }),
+      output: signature.output,
+    });
+  }
+}
+
+function add_usage(
+  a: LanguageModelUsage | undefined,
+  b: LanguageModelUsage | undefined
+): LanguageModelUsage | undefined {
+  if (!a || !b) return a ?? b;
+
+  const add = (x: number | undefined, y: number | undefined) =>
+    x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+
+  return {
+    inputTokens: add(a.inputTokens, b.inputTokens),
+    inputTokenDetails: {
+      noCacheTokens: add(
+        a.inputTokenDetails?.noCacheTokens,
+        b.inputTokenDetails?.noCacheTokens
+      ),
+      cacheReadTokens: add(
+        a.inputTokenDetails?.cacheReadTokens,
+        b.inputTokenDetails?.cacheReadTokens
+      ),
+      cacheWriteTokens: add(
+        a.inputTokenDetails?.cacheWriteTokens,
+        b.inputTokenDetails?.cacheWriteTokens
+      ),
+    },
+    outputTokens: add(a.outputTokens, b.outputTokens),
+    outputTokenDetails: {
+      textTokens: add(
+        a.outputTokenDetails?.textTokens,
+        b.outputTokenDetails?.textTokens
+      ),
+      reasoningTokens: add(
+        a.outputTokenDetails?.reasoningTokens,
+        b.outputTokenDetails?.reasoningTokens
+      ),
+    },
+    totalTokens: add(a.totalTokens, b.totalTokens),
+  };
+}
@@ -308,6 +308,14 @@ export function parseValue(schema: z.ZodType, value: string): any {
     return value.trim();
   }
 
+  // Enum values are usually produced bare (e.g. finish) rather than as JSON strings
+  if (schema instanceof z.ZodEnum) {
+    const candidate = value.trim().replace(/^["']|["']$/g, "");
+    if ((schema.options as unknown[]).includes(candidate)) {
+      return candidate;
+    }
+  }
+
   // Otherwise, try to parse as JSON
   try {
     const parsed = JSON.parse(value);
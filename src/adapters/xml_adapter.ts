@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { ChatAdapter, sameKeys } from "./chat_adapter";
+import type { Signature } from "../signatures/signature";
+import {
+  getFields,
+  format_field_value,
+  parseValue,
+  translate_field_type,
+} from "./utils";
+import { AdapterParseError } from "../exceptions";
+
+// Same as dspy's regex pattern re.compile(r"<(?P<name>\w+)>((?P<content>.*?))</\1>", re.DOTALL)
+const FIELD_PATTERN = /<(\w+)>([\s\S]*?)<\/\1>/g;
+
+// An opening tag whose closing tag has not been generated yet, at the end of a streamed completion
+const UNCLOSED_FIELD_PATTERN = /<(\w+)>((?:(?!<\/\1>)[\s\S])*)$/;
+
+// The start of a closing tag that is still being generated, e.g. "<", "</" or "</ans"
+const PARTIAL_CLOSING_TAG_PATTERN = /<\/?\w*$/;
+
+/**
+ * XMLAdapter structures inputs and outputs with XML tags, e.g. <field_name>...</field_name>,
+ * matching dspy.XMLAdapter.
+ *
+ * It inherits the fallback to JSONAdapter from ChatAdapter.
+ */
+export class XMLAdapter extends ChatAdapter {
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_field_structure<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>): string {
+    const inputFields = getFields(signature.input);
+    const outputFields = getFields(signature.output);
+
+    const parts = [
+      "All interactions will be structured in the following way, with the appropriate values filled in.",
+    ];
+
+    const fieldTypes = (fields: z.ZodRawShape) =>
+      Object.fromEntries(
+        Object.entries(fields).map(([name, type]) => [
+          name,
+          translate_field_type(name, type as z.ZodType),
+        ])
+      );
+
+    parts.push(
+      this.format_field_with_value(inputFields, fieldTypes(inputFields))
+    );
+    parts.push(
+      this.format_field_with_value(outputFields, fieldTypes(outputFields))
+    );
+
+    return parts.join("\n\n").trim();
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_user_message_content<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(
+    signature: Signature<I, O>,
+    inputs: z.infer<I>,
+    context: Record<string, { type: z.ZodType; value: any }>,
+    {
+      prefix = "",
+      suffix = "",
+      main_request = false,
+    }: { prefix?: string; suffix?: string; main_request?: boolean } = {}
+  ): string {
+    const inputFields = getFields(signature.input);
+    const messages = [prefix];
+
+    for (const [k, type] of Object.entries(inputFields)) {
+      if (k in inputs) {
+        const formatted_field_value = format_field_value(
+          type as z.ZodType,
+          inputs[k],
+          context
+        );
+        messages.push(`<${k}>\n${formatted_field_value}\n</${k}>`);
+      }
+    }
+
+    if (main_request) {
+      messages.push(this.user_message_output_requirements(signature));
+    }
+
+    messages.push(suffix);
+    return messages.filter(Boolean).join("\n\n").trim();
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override user_message_output_requirements<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(signature: Signature<I, O>): string {
+    const outputFields = getFields(signature.output);
+
+    let message =
+      "Respond with the corresponding output fields wrapped in XML tags ";
+    message += Object.keys(outputFields)
+      .map((f) => `\`<${f}>\``)
+      .join(", then ");
+    message += ".";
+    return message;
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_assistant_message_content<
+    I extends z.ZodObject<any>,
+    O extends z.ZodObject<any>
+  >(
+    signature: Signature<I, O>,
+    outputs: z.infer<O>,
+    options?: { missing_field_message?: string }
+  ): string {
+    const outputFields = getFields(signature.output);
+    const outputs_map = Object.fromEntries(
+      Object.keys(outputFields).map((name) => [
+        name,
+        outputs[name] ?? options?.missing_field_message,
+      ])
+    );
+    return this.format_field_with_value(outputFields, outputs_map);
+  }
+
+  /**
+   * NOTE: aligned with dspy [x]
+   */
+  override format_field_with_value(
+    fields: z.ZodRawShape,
+    values: Record<string, any>
+  ): string {
+    return Object.entries(fields)
+      .map(([name, type]) => {
+        const value = values ? values[name] : `[ ${name} ]`;
+        return `<${name}>\n${format_field_value(
+          type as z.ZodType,
+          value
+        )}\n</${name}>`;
+      })
+      .join("\n\n")
+      .trim();
+  }
+
+  /**
+   * NOTE: aligned with dspy [x] (plus partial parsing for streams)
+   */
+  override parse<I extends z.ZodObject<any>, O extends z.ZodObject<any>>(
+    signature: Signature<I, O>,
+    completion: string,
+    allow_partial_output: boolean = false
+  ): z.infer<O> {
+    const fields: Record<string, string> = {};
+    let last_end = 0;
+
+    for (const match of completion.matchAll(FIELD_PATTERN)) {
+      const name = match[1]!;
+      if (name in signature.output_fields && !(name in fields)) {
+        fields[name] = match[2]!.trim();
+      }
+      last_end = match.index! + match[0].length;
+    }
+
+    if (allow_partial_output) {
+      // Include the field that is still being generated, without its partial closing tag
+      const unclosed = UNCLOSED_FIELD_PATTERN.exec(completion.slice(last_end));
+      if (unclosed) {
+        const name = unclosed[1]!;
+        if (name in signature.output_fields && !(name in fields)) {
+          fields[name] = unclosed[2]!
+            .replace(PARTIAL_CLOSING_TAG_PATTERN, "")
+            .trim();
+        }
+      }
+    }
+
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(fields)) {
+      try {
+        result[k] = parseValue(signature.output_fields[k] as z.ZodType, v);
+      } catch (e) {
+        if (allow_partial_output) {
+          result[k] = v;
+          continue;
+        }
+        throw new AdapterParseError(
+          "XMLAdapter",
+          signature,
+          completion,
+          `Failed to parse field ${k} with value ${v} from the LM response. Error message: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        );
+      }
+    }
+
+    if (!sameKeys(signature.output_fields, result) && !allow_partial_output) {
+      throw new AdapterParseError(
+        "XMLAdapter",
+        signature,
+        completion,
+        `Expected output fields: ${Object.keys(signature.output_fields).join(
+          ", "
+        )}`,
+        result
+      );
+    }
+    return result as z.infer<O>;
+  }
+}
@@ -1,31 +1,46 @@
 import {
+  APICallError,
+  RetryError,
   generateText,
   streamText,
+  type CallSettings,
   type LanguageModel,
   type GenerateTextResult,
   type StreamTextResult,
   type ToolSet,
 } from "ai";
 import type { ProviderOptions } from "@ai-sdk/provider-utils";
+import { ContextWindowExceededError } from "../exceptions";
+
+// Error messages and codes used by providers (OpenAI, Anthropic, Google, Mistral, ...) when the prompt is too long
+const CONTEXT_WINDOW_EXCEEDED_PATTERN =
+  /context[_ ]length[_ ]exceeded|maximum context length|context window|prompt is too long|input is too long|exceeds the maximum number of tokens|too many tokens/i;
 
 /**
  * LM represents a language model configuration in ds.ts.
- * It encapsulates the Vercel AI SDK model and provider options.
+ * It encapsulates the Vercel AI SDK model, provider options and default call settings
+ * (e.g. temperature). Settings passed to a call override the defaults.
  */
 export class LM {
   constructor(
     public model: LanguageModel,
-    public providerOptions?: ProviderOptions
+    public providerOptions?: ProviderOptions,
+    public config: CallSettings = {}
   ) {}
 
   /**
    * Returns a copy of the LM with updated options.
-   * Useful for temporary parameter overrides, similar to dspy.LM.copy().
+   * Useful for temporary parameter overrides, similar to dspy.LM.copy(), e.g.
+   * `lm.copy({ config: { temperature: 1.0 } })`.
    */
-  copy(overrides: Partial<Pick<LM, "providerOptions">> = {}): LM {
-    return new LM(this.model, {
-      ...this.providerOptions,
-      ...overrides.providerOptions,
+  copy(overrides: Partial<Pick<LM, "providerOptions" | "config">> = {}): LM {
+    // Keeps the class of the LM, so subclasses (e.g. test LMs) are copied too
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+      providerOptions: {
+        ...this.providerOptions,
+        ...overrides.providerOptions,
+      },
+      config: { ...this.config, ...overrides.config },
     });
   }
 
@@ -39,11 +54,16 @@ export class LM {
       "model" | "providerOptions"
     >
   ): Promise<GenerateTextResult<T, any>> {
-    return (await generateText({
-      model: this.model,
-      providerOptions: this.providerOptions,
-      ...options,
-    } as any)) as any;
+    try {
+      return (await generateText({
+        model: this.model,
+        providerOptions: this.providerOptions,
+        ...this.config,
+        ...options,
+      } as any)) as any;
+    } catch (e) {
+      throw this.to_context_window_error(e) ?? e;
+    }
   }
 
   /**
@@ -52,10 +72,84 @@ export class LM {
   async streamText<T extends ToolSet>(
     options: Omit<Parameters<typeof streamText>[0], "model" | "providerOptions">
   ): Promise<StreamTextResult<T, any>> {
-    return (await streamText({
+    // streamText doesn't throw provider errors: it reports them to onError and ends the streams.
+    // Context window overflows are raised when the streams and promises of the result are consumed.
+    let overflow: ContextWindowExceededError | null = null;
+    const result = streamText({
       model: this.model,
       providerOptions: this.providerOptions,
+      ...this.config,
       ...options,
-    } as any)) as any;
+      onError: (event: { error: unknown }) => {
+        overflow ??= this.to_context_window_error(event.error);
+        if (overflow) return;
+        if (options.onError) return options.onError(event);
+        console.error(event.error);
+      },
+    } as any);
+    return raise_stream_error(result, () => overflow) as any;
+  }
+
+  /**
+   * Converts a provider error reporting a context window overflow into a ContextWindowExceededError.
+   * Returns null for any other error.
+   */
+  private to_context_window_error(
+    e: unknown
+  ): ContextWindowExceededError | null {
+    const error = RetryError.isInstance(e) ? e.lastError : e;
+    if (!APICallError.isInstance(error)) {
+      return null;
+    }
+
+    const details = `${error.message}\n${error.responseBody ?? ""}`;
+    if (!CONTEXT_WINDOW_EXCEEDED_PATTERN.test(details)) {
+      return null;
+    }
+
+    const model =
+      typeof this.model === "string" ? this.model : this.model.modelId;
+    return new ContextWindowExceededError(error.message, model, e);
   }
 }
+
+/**
+ * Wraps a streamText result so that its streams fail, and its promises reject, with the error
+ * returned by `get_error` once the stream has ended.
+ */
+function raise_stream_error<R extends object>(
+  result: R,
+  get_error: () => Error | null
+): R {
+  return new Proxy(result, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (value instanceof ReadableStream) {
+        const reader = value.getReader();
+        return new ReadableStream({
+          async pull(controller) {
+            const { done, value: chunk } = await reader.read();
+            if (!done) return controller.enqueue(chunk);
+            const error = get_error();
+            if (error) controller.error(error);
+            else controller.close();
+          },
+          cancel: (reason) => reader.cancel(reason),
+        });
+      }
+      if (value instanceof Promise) {
+        return value.then(
+          (resolved) => {
+            const error = get_error();
+            if (error) throw error;
+            return resolved;
+          },
+          (e) => {
+            throw get_error() ?? e;
+          }
+        );
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import type { LM } from "./lm";
+import type { FinetuneRecord } from "./utils_finetune";
+
+/**
+ * A fine-tuning job, as started by BootstrapFinetune.
+ */
+export interface FinetuneJob {
+  /**
+   * The LM to fine-tune.
+   */
+  lm: LM;
+  /**
+   * The JSONL file of the training data, in the OpenAI chat fine-tuning format.
+   */
+  train_data_path: string;
+  /**
+   * Provider specific training arguments (e.g. the number of epochs).
+   */
+  train_kwargs: Record<string, any>;
+}
+
+/**
+ * Fine-tunes LMs on JSONL training data, matching dspy.Provider. Implementations usually
+ * upload the file, wait for the job to finish and return an LM of the fine-tuned model.
+ */
+export interface FinetuneProvider {
+  finetune(job: FinetuneJob): Promise<LM>;
+}
+
+/**
+ * A provider that doesn't train anything: it checks that the training data is valid
+ * fine-tuning data, records the job and returns a copy of the LM. Useful to inspect the data
+ * written by BootstrapFinetune, and in tests.
+ *
+ * @example
+ * ```ts
+ * const provider = new LocalFinetuneProvider();
+ * await new BootstrapFinetune({ provider }).compile(program, { trainset });
+ * console.log(provider.jobs[0].records);
+ * ```
+ */
+export class LocalFinetuneProvider implements FinetuneProvider {
+  public jobs: (FinetuneJob & { records: FinetuneRecord[] })[] = [];
+
+  async finetune(job: FinetuneJob): Promise<LM> {
+    const text = await Bun.file(job.train_data_path).text();
+    const records = text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        const record = JSON.parse(line);
+        if (!Array.isArray(record.messages) || record.messages.length === 0) {
+          throw new Error(
+            `Line ${i + 1} of ${job.train_data_path} has no messages`
+          );
+        }
+        return record as FinetuneRecord;
+      });
+    if (records.length === 0) {
+      throw new Error(`${job.train_data_path} has no training data`);
+    }
+
+    this.jobs.push({ ...job, records });
+    return job.lm.copy();
+  }
+}
@@ -0,0 +1,202 @@
+import { asSchema, type ToolSet } from "ai";
+
+/**
+ * A content part of an OpenAI chat message.
+ */
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: string } }
+  | { type: "file"; file: { filename?: string; file_data: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/**
+ * A message in the OpenAI chat format, as used by chat fine-tuning data.
+ */
+export interface OpenAIChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAITool {
+  type: "function";
+  function: { name: string; description?: string; parameters: unknown };
+}
+
+/**
+ * A line of an OpenAI chat fine-tuning file.
+ */
+export interface FinetuneRecord {
+  messages: OpenAIChatMessage[];
+  tools?: OpenAITool[];
+}
+
+/**
+ * Converts AI SDK model messages (as built by the adapters or returned in
+ * `result.response.messages`) to the OpenAI chat format.
+ *
+ * Images become `image_url` parts, audio files `input_audio` parts and other files `file`
+ * parts, with binary data inlined as base64. Assistant tool calls become `tool_calls`, and each
+ * tool result becomes a message of its own.
+ */
+export function to_openai_messages(messages: any[]): OpenAIChatMessage[] {
+  const result: OpenAIChatMessage[] = [];
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "tool") {
+      for (const part of message.content) {
+        if (part.type !== "tool-result") continue;
+        result.push({
+          role: "tool",
+          tool_call_id: part.toolCallId,
+          content: tool_output_text(part.output),
+        });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const text = message.content
+        .filter((part: any) => part.type === "text")
+        .map((part: any) => part.text)
+        .join("");
+      const tool_calls: OpenAIToolCall[] = message.content
+        .filter((part: any) => part.type === "tool-call")
+        .map((part: any) => ({
+          id: part.toolCallId,
+          type: "function",
+          function: {
+            name: part.toolName,
+            arguments:
+              typeof part.input === "string"
+                ? part.input
+                : JSON.stringify(part.input ?? {}),
+          },
+        }));
+      result.push({
+        role: "assistant",
+        content: text || (tool_calls.length > 0 ? null : ""),
+        ...(tool_calls.length > 0 && { tool_calls }),
+      });
+      continue;
+    }
+
+    result.push({
+      role: message.role,
+      content: message.content.map(to_openai_content_part),
+    });
+  }
+  return result;
+}
+
+/**
+ * Describes the tools of a signature in the OpenAI function format.
+ */
+export async function to_openai_tools(tools: ToolSet): Promise<OpenAITool[]> {
+  return Promise.all(
+    Object.entries(tools).map(async ([name, tool]) => ({
+      type: "function" as const,
+      function: {
+        name,
+        ...(tool.description && { description: tool.description }),
+        parameters: await asSchema(tool.inputSchema).jsonSchema,
+      },
+    }))
+  );
+}
+
+/**
+ * Writes the records as JSON lines.
+ */
+export async function write_lines(
+  path: string,
+  records: FinetuneRecord[]
+): Promise<void> {
+  await Bun.write(
+    path,
+    records.map((record) => JSON.stringify(record) + "\n").join("")
+  );
+}
+
+function to_openai_content_part(part: any): OpenAIContentPart {
+  switch (part.type) {
+    case "text":
+      return { type: "text", text: part.text };
+    case "image":
+      return {
+        type: "image_url",
+        image_url: {
+          url: to_url(part.image, part.mediaType ?? "image/png"),
+        },
+      };
+    case "file":
+      if (part.mediaType?.startsWith("audio/")) {
+        return {
+          type: "input_audio",
+          input_audio: {
+            data: to_base64(part.data),
+            format: AUDIO_FORMATS[part.mediaType] ?? part.mediaType.slice(6),
+          },
+        };
+      }
+      return {
+        type: "file",
+        file: {
+          ...(part.filename && { filename: part.filename }),
+          file_data: to_url(part.data, part.mediaType),
+        },
+      };
+    default:
+      throw new Error(
+        `Content parts of type ${part.type} are not supported in fine-tuning data`
+      );
+  }
+}
+
+const AUDIO_FORMATS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+};
+
+/**
+ * Keeps URLs as they are and inlines other data as a base64 data URL.
+ */
+function to_url(
+  data: string | URL | Uint8Array | ArrayBuffer,
+  media_type: string
+): string {
+  if (data instanceof URL) return data.href;
+  if (typeof data === "string" && /^(https?|data):/.test(data)) return data;
+  return `data:${media_type};base64,${to_base64(data)}`;
+}
+
+/**
+ * Strings are assumed to already be base64 encoded, or to be a data URL.
+ */
+function to_base64(data: string | URL | Uint8Array | ArrayBuffer): string {
+  if (typeof data === "string") return data.replace(/^data:[^,]*,/, "");
+  if (data instanceof URL) return data.href;
+  return Buffer.from(
+    data instanceof ArrayBuffer ? new Uint8Array(data) : data
+  ).toString("base64");
+}
+
+function tool_output_text(output: any): string {
+  if (output?.type === "text" || output?.type === "error-text") {
+    return output.value;
+  }
+  return JSON.stringify(output?.value ?? output);
+}
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import { Module } from "../primitives/module";
+import { Prediction } from "../primitives/prediction";
+import type { Example } from "../primitives/example";
+import { Signature } from "../signatures/signature";
+import { ChainOfThought } from "../predict/chain_of_thought";
+import type { Metric } from "./evaluate";
+
+const question = z.string();
+const ground_truth = z.string();
+const system_response = z.string();
+const recall = z
+  .number()
+  .describe(
+    "fraction (out of 1.0) of ground truth covered by the system response"
+  );
+const precision = z
+  .number()
+  .describe(
+    "fraction (out of 1.0) of system response covered by the ground truth"
+  );
+const ground_truth_key_ideas = z
+  .string()
+  .describe("enumeration of key ideas in the ground truth");
+const system_response_key_ideas = z
+  .string()
+  .describe("enumeration of key ideas in the system response");
+const discussion = z
+  .string()
+  .describe(
+    "discussion of the overlap between ground truth and system response"
+  );
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const SemanticRecallPrecision = new Signature({
+  instructions:
+    "Compare a system's response to the ground truth to compute its recall and precision.\n" +
+    "If asked to reason, enumerate key ideas in each response, and whether they are present in the other response.",
+  input: z.object({ question, ground_truth, system_response }),
+  output: z.object({ recall, precision }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const DecompositionalSemanticRecallPrecision = new Signature({
+  instructions:
+    "Compare a system's response to the ground truth to compute recall and precision of key ideas.\n" +
+    "You will first enumerate key ideas in each response, discuss their overlap, and then report recall and precision.",
+  input: z.object({ question, ground_truth, system_response }),
+  output: z.object({
+    ground_truth_key_ideas,
+    system_response_key_ideas,
+    discussion,
+    recall,
+    precision,
+  }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const AnswerCompleteness = new Signature({
+  instructions:
+    "Estimate the completeness of a system's responses, against the ground truth.\n" +
+    "You will first enumerate key ideas in each response, discuss their overlap, and then report completeness.",
+  input: z.object({ question, ground_truth, system_response }),
+  output: z.object({
+    ground_truth_key_ideas,
+    system_response_key_ideas,
+    discussion,
+    completeness: z
+      .number()
+      .describe(
+        "fraction (out of 1.0) of ground truth covered by the system response"
+      ),
+  }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const AnswerGroundedness = new Signature({
+  instructions:
+    "Estimate the groundedness of a system's responses, against real retrieved documents written by people.\n" +
+    "You will first enumerate whatever non-trivial or check-worthy claims are made in the system response, and then\n" +
+    "discuss the extent to which some or all of them can be deduced from the retrieved context and basic commonsense.",
+  input: z.object({
+    question,
+    retrieved_context: z.string(),
+    system_response,
+  }),
+  output: z.object({
+    system_response_claims: z
+      .string()
+      .describe(
+        "enumeration of non-trivial or check-worthy claims in the system response"
+      ),
+    discussion: z
+      .string()
+      .describe(
+        "discussion of how supported the claims are by the retrieved context"
+      ),
+    groundedness: z
+      .number()
+      .describe(
+        "fraction (out of 1.0) of system response supported by the retrieved context"
+      ),
+  }),
+});
+
+/**
+ * LM-judged F1 of the key ideas of `prediction.response` against `example.response`,
+ * matching dspy.evaluate.SemanticF1.
+ *
+ * Pass `metric` to Evaluate or to an optimizer. When called with a trace (i.e. while
+ * bootstrapping), the metric returns whether the score reaches `threshold`.
+ *
+ * @example
+ * ```ts
+ * const evaluate = new Evaluate({ devset, metric: new SemanticF1().metric });
+ * ```
+ */
+export class SemanticF1 extends Module {
+  public threshold: number;
+  public module: ChainOfThought<
+    | typeof SemanticRecallPrecision
+    | typeof DecompositionalSemanticRecallPrecision
+  >;
+
+  constructor(threshold: number = 0.66, decompositional: boolean = false) {
+    super();
+    this.threshold = threshold;
+    this.module = new ChainOfThought(
+      decompositional
+        ? DecompositionalSemanticRecallPrecision
+        : SemanticRecallPrecision
+    );
+  }
+
+  override async run(
+    example: Example<any>,
+    prediction: Prediction<any, any>
+  ): Promise<Prediction<{ score: number }, null>> {
+    return (await super.run(example, prediction)) as any;
+  }
+
+  async forward(
+    example: Example<any>,
+    prediction: Prediction<any, any>
+  ): Promise<Prediction<{ score: number }, null>> {
+    const scores = await this.module.run({
+      question: example.question,
+      ground_truth: example.response,
+      system_response: prediction.response,
+    });
+    return new Prediction({ score: f1_score(scores.precision, scores.recall) });
+  }
+
+  /**
+   * The metric bound to this instance. It's a getter rather than an own property, so a
+   * deepcopy of the module gets a metric calling its own predictors.
+   */
+  get metric(): Metric {
+    return async (example, prediction, trace) => {
+      const { score } = await this.run(example, prediction);
+      return trace === undefined ? score : score >= this.threshold;
+    };
+  }
+}
+
+/**
+ * LM-judged F1 of the completeness of `prediction.response` against `example.response` and its
+ * groundedness in the retrieved `prediction.context`, matching dspy.evaluate.CompleteAndGrounded.
+ *
+ * As with SemanticF1, pass `metric` to Evaluate or to an optimizer.
+ */
+export class CompleteAndGrounded extends Module {
+  public threshold: number;
+  public completeness_module: ChainOfThought<typeof AnswerCompleteness>;
+  public groundedness_module: ChainOfThought<typeof AnswerGroundedness>;
+
+  constructor(threshold: number = 0.66) {
+    super();
+    this.threshold = threshold;
+    this.completeness_module = new ChainOfThought(AnswerCompleteness);
+    this.groundedness_module = new ChainOfThought(AnswerGroundedness);
+  }
+
+  override async run(
+    example: Example<any>,
+    prediction: Prediction<any, any>
+  ): Promise<Prediction<{ score: number }, null>> {
+    return (await super.run(example, prediction)) as any;
+  }
+
+  async forward(
+    example: Example<any>,
+    prediction: Prediction<any, any>
+  ): Promise<Prediction<{ score: number }, null>> {
+    const completeness = await this.completeness_module.run({
+      question: example.question,
+      ground_truth: example.response,
+      system_response: prediction.response,
+    });
+    const groundedness = await this.groundedness_module.run({
+      question: example.question,
+      retrieved_context: format_context(prediction.context),
+      system_response: prediction.response,
+    });
+    return new Prediction({
+      score: f1_score(groundedness.groundedness, completeness.completeness),
+    });
+  }
+
+  get metric(): Metric {
+    return async (example, prediction, trace) => {
+      const { score } = await this.run(example, prediction);
+      return trace === undefined ? score : score >= this.threshold;
+    };
+  }
+}
+
+/**
+ * F1 of a precision and a recall, both clipped to [0, 1].
+ */
+function f1_score(precision: number, recall: number): number {
+  precision = Math.max(0, Math.min(1, precision));
+  recall = Math.max(0, Math.min(1, recall));
+  return precision + recall === 0
+    ? 0
+    : (2 * (precision * recall)) / (precision + recall);
+}
+
+function format_context(context: unknown): string {
+  return Array.isArray(context) ? context.join("\n\n") : String(context);
+}
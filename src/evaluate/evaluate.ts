@@ -0,0 +1,252 @@
+import type { Module, DSTsTrace } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import type { Example } from "../primitives/example";
+import { ParallelExecutor } from "../utils/parallel";
+
+/**
+ * A metric scores a prediction against its example. Booleans count as 0 or 1.
+ * Optimizers pass the trace of the program run, so metrics can be stricter while bootstrapping.
+ */
+export type Metric = (
+  example: Example<any>,
+  prediction: Prediction<any, any>,
+  trace?: DSTsTrace
+) => number | boolean | Promise<number | boolean>;
+
+/**
+ * Reported to `on_progress` after each example.
+ */
+export interface EvaluationProgress {
+  completed: number;
+  total: number;
+  errors: number;
+  /**
+   * The score of the completed examples so far, as a percentage.
+   */
+  score: number;
+}
+
+/**
+ * The outcome of a single example. Examples whose program or metric call failed have no
+ * prediction and get the failure score.
+ */
+export interface EvaluationRow {
+  example: Example<any>;
+  prediction: Prediction<any, any> | null;
+  score: number;
+  error?: string;
+}
+
+/**
+ * The result of an evaluation, matching dspy.evaluate.EvaluationResult.
+ */
+export class EvaluationResult {
+  constructor(
+    /**
+     * The average score over the devset, as a percentage rounded to two decimals.
+     */
+    public score: number,
+    public results: EvaluationRow[],
+    public metric_name: string = "metric"
+  ) {}
+
+  /**
+   * Renders the results as a markdown table: the example fields, the prediction fields
+   * (prefixed with `pred_` when an example field has the same name) and the score.
+   */
+  toTable(): string {
+    const example_keys = unique(
+      this.results.flatMap(({ example }) => Object.keys(example.toDict()))
+    );
+    const prediction_keys = unique(
+      this.results.flatMap(({ prediction }) =>
+        Object.keys(prediction_fields(prediction))
+      )
+    );
+
+    const header = [
+      ...example_keys,
+      ...prediction_keys.map((k) =>
+        example_keys.includes(k) ? `pred_${k}` : k
+      ),
+      this.metric_name,
+    ];
+
+    const rows = this.results.map(({ example, prediction, score }) => {
+      const fields = example.toDict() as Record<string, any>;
+      const outputs = prediction_fields(prediction);
+      return [
+        ...example_keys.map((k) => format_cell(fields[k])),
+        ...prediction_keys.map((k) => format_cell(outputs[k])),
+        format_cell(score),
+      ];
+    });
+
+    return [header, header.map(() => "---"), ...rows]
+      .map((cells) => `| ${cells.join(" | ")} |`)
+      .join("\n");
+  }
+
+  /**
+   * Returns a JSON-serializable report of the evaluation.
+   */
+  toJSON(): {
+    score: number;
+    metric: string;
+    results: {
+      example: Record<string, any>;
+      prediction: Record<string, any> | null;
+      score: number;
+      error?: string;
+    }[];
+  } {
+    return {
+      score: this.score,
+      metric: this.metric_name,
+      results: this.results.map(({ example, prediction, score, error }) => ({
+        example: example.toDict(),
+        prediction: prediction && prediction_fields(prediction),
+        score,
+        ...(error !== undefined ? { error } : {}),
+      })),
+    };
+  }
+}
+
+/**
+ * Evaluate scores a program over a devset with a metric, matching dspy.Evaluate.
+ *
+ * Each example is run with its inputs (see `Example.withInputs`), with up to `num_threads`
+ * examples at a time. Examples that fail get `failure_score`; the evaluation is cancelled once
+ * `max_errors` examples have failed.
+ *
+ * @example
+ * ```ts
+ * const evaluate = new Evaluate({ devset, metric: exact_match, num_threads: 8 });
+ * const result = await evaluate.run(program);
+ * console.log(result.score, result.toTable());
+ * ```
+ */
+export class Evaluate {
+  public devset: Example<any>[];
+  public metric: Metric;
+  public num_threads: number;
+  public max_errors: number;
+  public failure_score: number;
+  public on_progress?: (progress: EvaluationProgress) => void;
+
+  constructor({
+    devset,
+    metric,
+    num_threads = 1,
+    max_errors = 10,
+    failure_score = 0,
+    on_progress,
+  }: {
+    devset: Example<any>[];
+    metric: Metric;
+    num_threads?: number;
+    max_errors?: number;
+    failure_score?: number;
+    on_progress?: (progress: EvaluationProgress) => void;
+  }) {
+    this.devset = devset;
+    this.metric = metric;
+    this.num_threads = num_threads;
+    this.max_errors = max_errors;
+    this.failure_score = failure_score;
+    this.on_progress = on_progress;
+  }
+
+  /**
+   * Evaluates the program. The metric and devset given here override the ones given to the constructor.
+   */
+  async run(
+    program: Module<any>,
+    {
+      metric = this.metric,
+      devset = this.devset,
+    }: { metric?: Metric; devset?: Example<any>[] } = {}
+  ): Promise<EvaluationResult> {
+    let completed = 0;
+    let errors = 0;
+    let total_score = 0;
+
+    const executor = new ParallelExecutor({
+      num_threads: this.num_threads,
+      max_errors: this.max_errors,
+      on_result: (_, row, error) => {
+        completed++;
+        if (error !== undefined) {
+          errors++;
+          total_score += this.failure_score;
+        } else {
+          total_score += (row as EvaluationRow).score;
+        }
+        this.on_progress?.({
+          completed,
+          total: devset.length,
+          errors,
+          score: round(percentage(total_score, completed)),
+        });
+      },
+    });
+
+    const error_messages = new Map<number, string>();
+    const rows = await executor.execute(async (example, index) => {
+      try {
+        const prediction = await program.run(example.inputs());
+        const score = Number(await metric(example, prediction));
+        return { example, prediction, score } as EvaluationRow;
+      } catch (e) {
+        error_messages.set(index, e instanceof Error ? e.message : String(e));
+        throw e;
+      }
+    }, devset);
+
+    const results = rows.map(
+      (row, index): EvaluationRow =>
+        row ?? {
+          example: devset[index]!,
+          prediction: null,
+          score: this.failure_score,
+          error: error_messages.get(index),
+        }
+    );
+
+    const score = round(
+      percentage(
+        results.reduce((sum, { score }) => sum + score, 0),
+        results.length
+      )
+    );
+    return new EvaluationResult(score, results, metric.name || "metric");
+  }
+}
+
+function percentage(score: number, total: number): number {
+  return total === 0 ? 0 : (100 * score) / total;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function unique(keys: string[]): string[] {
+  return [...new Set(keys)];
+}
+
+function prediction_fields(
+  prediction: Prediction<any, any> | null
+): Record<string, any> {
+  if (!prediction) return {};
+  return Object.fromEntries(
+    Object.entries(prediction).filter(([key]) => key !== "_result")
+  );
+}
+
+function format_cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
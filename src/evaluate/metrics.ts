@@ -0,0 +1,160 @@
+import type { DSTsTrace } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import type { Example } from "../primitives/example";
+
+// Same characters as Python's string.punctuation
+const PUNCTUATION = new Set("!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~");
+
+/**
+ * Normalizes an answer for comparison: lowercases it and removes punctuation, articles and
+ * extra whitespace, as in the SQuAD evaluation script.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function normalize_text(s: string): string {
+  const lower = s.normalize("NFD").toLowerCase();
+  const without_punc = [...lower].filter((ch) => !PUNCTUATION.has(ch)).join("");
+  const without_articles = without_punc.replace(/\b(a|an|the)\b/g, " ");
+  return without_articles.split(/\s+/).filter(Boolean).join(" ");
+}
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export function em_score(prediction: string, ground_truth: string): boolean {
+  return normalize_text(prediction) === normalize_text(ground_truth);
+}
+
+/**
+ * Token-level F1 between the normalized prediction and ground truth.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function f1_score(prediction: string, ground_truth: string): number {
+  const prediction_tokens = normalize_text(prediction)
+    .split(" ")
+    .filter(Boolean);
+  const ground_truth_tokens = normalize_text(ground_truth)
+    .split(" ")
+    .filter(Boolean);
+
+  const counts = new Map<string, number>();
+  for (const token of ground_truth_tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  let num_same = 0;
+  for (const token of prediction_tokens) {
+    const count = counts.get(token) ?? 0;
+    if (count > 0) {
+      num_same++;
+      counts.set(token, count - 1);
+    }
+  }
+
+  if (num_same === 0) {
+    return 0;
+  }
+
+  const precision = num_same / prediction_tokens.length;
+  const recall = num_same / ground_truth_tokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Whether the prediction matches any of the answers exactly, after normalization.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function EM(prediction: string, answers_list: string[]): boolean {
+  return answers_list.some((answer) => em_score(prediction, answer));
+}
+
+/**
+ * The best token-level F1 of the prediction against the answers.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function F1(prediction: string, answers_list: string[]): number {
+  return Math.max(
+    0,
+    ...answers_list.map((answer) => f1_score(prediction, answer))
+  );
+}
+
+/**
+ * Whether the passage contains one of the answers as a sequence of tokens, as in DPR.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function passage_has_answers(
+  passage: string,
+  answers: string[]
+): boolean {
+  const passage_tokens = tokenize(passage);
+
+  return answers.some((answer) => {
+    const answer_tokens = tokenize(answer);
+    if (answer_tokens.length === 0) return false;
+
+    for (let i = 0; i + answer_tokens.length <= passage_tokens.length; i++) {
+      if (answer_tokens.every((token, j) => passage_tokens[i + j] === token)) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+/**
+ * Metric checking `prediction.answer` against `example.answer` (a string or a list of strings).
+ * With `frac` below 1, the answer only needs a token-level F1 of at least `frac`.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function answer_exact_match(
+  example: Example<any>,
+  prediction: Prediction<any, any>,
+  trace?: DSTsTrace,
+  frac: number = 1.0
+): boolean {
+  const answers = to_answers_list(example.answer, "answer_exact_match");
+  if (frac >= 1.0) {
+    return EM(prediction.answer, answers);
+  }
+  return F1(prediction.answer, answers) >= frac;
+}
+
+/**
+ * Metric checking whether any retrieved passage in `prediction.context` contains `example.answer`.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function answer_passage_match(
+  example: Example<any>,
+  prediction: Prediction<any, any>,
+  trace?: DSTsTrace
+): boolean {
+  const answers = to_answers_list(example.answer, "answer_passage_match");
+  const passages: string[] = Array.isArray(prediction.context)
+    ? prediction.context
+    : [prediction.context];
+  return passages.some((passage) => passage_has_answers(passage, answers));
+}
+
+function to_answers_list(answer: unknown, metric: string): string[] {
+  if (typeof answer === "string") {
+    return [answer];
+  }
+  if (Array.isArray(answer)) {
+    return answer;
+  }
+  throw new Error(`Invalid answer type for ${metric}: ${typeof answer}`);
+}
+
+// Same as DPR's SimpleTokenizer: runs of letters, numbers and marks, or single other visible characters
+const TOKEN_PATTERN = /[\p{L}\p{N}\p{M}]+|[^\p{Z}\p{C}\s]/gu;
+
+function tokenize(text: string): string[] {
+  return text.normalize("NFD").toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
@@ -1,5 +1,14 @@
 import type { Signature } from "./signatures/signature";
 
+/**
+ * An LM response that an adapter failed to parse.
+ */
+export interface AdapterParseAttempt {
+  lm_response: string;
+  message: string;
+  parsed_result: Record<string, any> | null;
+}
+
 /**
  * Exception raised when adapter cannot parse the LM response.
  */
@@ -9,6 +18,10 @@ export class AdapterParseError extends Error {
   readonly signature: Signature;
   readonly lm_response: string;
   readonly parsed_result: Record<string, any> | null;
+  /**
+   * Every failed attempt of the LM call, in order, when the adapter retried it.
+   */
+  attempts: AdapterParseAttempt[] = [];
 
   constructor(
     adapter_name: string,
@@ -42,3 +55,18 @@ export class AdapterParseError extends Error {
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
+
+/**
+ * Exception raised when a provider reports that the prompt does not fit in the model's context window.
+ */
+export class ContextWindowExceededError extends Error {
+  override readonly name = "ContextWindowExceededError";
+  readonly model: string | undefined;
+
+  constructor(message: string, model?: string, cause?: unknown) {
+    super(message, { cause });
+
+    this.model = model;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
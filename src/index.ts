@@ -1,11 +1,39 @@
 export * from "./signatures/signature";
 export * from "./primitives/prediction";
+export * from "./primitives/example";
 export * from "./primitives/module";
 export * from "./predict/predict";
+export * from "./predict/chain_of_thought";
+export * from "./predict/react";
+export * from "./predict/knn";
+export * from "./predict/aggregation";
+export * from "./evaluate/evaluate";
+export * from "./evaluate/metrics";
+export * from "./evaluate/auto_evaluation";
+export * from "./teleprompt/teleprompt";
+export * from "./teleprompt/vanilla";
+export * from "./teleprompt/bootstrap";
+export * from "./teleprompt/random_search";
+export * from "./teleprompt/mipro_optimizer_v2";
+export * from "./teleprompt/copro_optimizer";
+export * from "./teleprompt/gepa/gepa";
+export * from "./teleprompt/knn_fewshot";
+export * from "./teleprompt/simba";
+export * from "./teleprompt/ensemble";
+export * from "./teleprompt/bootstrap_trace";
+export * from "./teleprompt/bootstrap_finetune";
+export * from "./propose/grounded_proposer";
+export * from "./streaming/streamify";
+export * from "./streaming/stream_listener";
 export { Output } from "ai";
 export * from "./clients/lm";
+export * from "./clients/provider";
+export * from "./clients/utils_finetune";
 export * from "./settings";
 export * from "./adapters/base";
 export * from "./adapters/json_adapter";
 export * from "./adapters/chat_adapter";
+export * from "./adapters/xml_adapter";
+export * from "./adapters/two_step_adapter";
 export * from "./adapters/types";
+export * from "./exceptions";
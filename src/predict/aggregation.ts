@@ -0,0 +1,71 @@
+import type { Prediction } from "../primitives/prediction";
+import { normalize_text } from "../evaluate/metrics";
+
+/**
+ * Normalizes string values with `normalize_text`. Values that normalize to an empty string
+ * become null, so they only win a vote when every value is empty.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function default_normalize(value: unknown): unknown {
+  return typeof value === "string" ? normalize_text(value) || null : value;
+}
+
+/**
+ * Picks the prediction whose `field` has the most common normalized value, matching
+ * dspy.majority. Ties go to the value seen first, and the first prediction with the winning
+ * value is returned.
+ *
+ * @param options.field - Defaults to the last output field of the first prediction.
+ * @param options.normalize - Pass `null` to compare the raw values.
+ *
+ * @example
+ * ```ts
+ * const answers = await Promise.all([1, 2, 3].map(() => qa.run({ question })));
+ * const { answer } = majority(answers);
+ * ```
+ */
+export function majority<P extends Prediction<any, any>>(
+  predictions: P[],
+  {
+    normalize = default_normalize,
+    field,
+  }: {
+    normalize?: ((value: unknown) => unknown) | null;
+    field?: string;
+  } = {}
+): P {
+  if (predictions.length === 0) {
+    throw new Error("Cannot take the majority of no predictions");
+  }
+  const key =
+    field ??
+    Object.keys(predictions[0]!)
+      .filter((k) => k !== "_result")
+      .at(-1)!;
+  const normalize_fn = normalize ?? ((value: unknown) => value);
+  // Objects are compared by their JSON
+  const vote = (prediction: P) => {
+    const value = normalize_fn((prediction as Record<string, any>)[key]);
+    return typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : value;
+  };
+
+  const votes = predictions.map(vote);
+  const non_null = votes.filter((v) => v !== null && v !== undefined);
+  const counts = new Map<unknown, number>();
+  for (const v of non_null.length > 0 ? non_null : votes) {
+    counts.set(v, (counts.get(v) ?? 0) + 1);
+  }
+
+  let majority_value: unknown;
+  let max_count = 0;
+  for (const [value, count] of counts) {
+    if (count > max_count) {
+      majority_value = value;
+      max_count = count;
+    }
+  }
+  return predictions[votes.indexOf(majority_value)]!;
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import type { GenerateTextResult, Output } from "ai";
+import { Module } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import { Predict, type PredictConfig } from "./predict";
+import {
+  Signature,
+  type InferInput,
+  type InferOutput,
+  type InferTools,
+} from "../signatures/signature";
+
+/**
+ * Same prefix and description DSPy uses for the injected reasoning field,
+ * so saved states stay interchangeable with compiled Python programs.
+ */
+export const REASONING_PREFIX =
+  "Reasoning: Let's think step by step in order to";
+const REASONING_DESCRIPTION = "${reasoning}";
+
+/**
+ * The signature S with a `reasoning` output field prepended.
+ */
+export type WithReasoning<S extends Signature<any, any, any>> = Signature<
+  S["input"],
+  z.ZodObject<{ reasoning: z.ZodString } & S["output"]["shape"]>,
+  InferTools<S>
+>;
+
+/**
+ * ChainOfThought wraps a Predict whose signature asks the LM to reason step by step
+ * before producing the output fields, matching dspy.ChainOfThought.
+ *
+ * The inner predictor is stored as `predict` so the saved state key matches DSPy's
+ * `<name>.predict` layout.
+ */
+export class ChainOfThought<S extends Signature = Signature> extends Module<S> {
+  public predict: Predict<WithReasoning<S>>;
+
+  constructor(signature: S | string, config: PredictConfig = {}) {
+    super();
+    const sig =
+      typeof signature === "string" ? Signature.parse(signature) : signature;
+    const extended = sig.prepend(
+      "output",
+      "reasoning",
+      z.string().describe(REASONING_DESCRIPTION),
+      REASONING_PREFIX
+    );
+    this.predict = new Predict(extended as WithReasoning<S>, config);
+  }
+
+  override async run(
+    input: InferInput<S>,
+    config: PredictConfig = {}
+  ): Promise<
+    Prediction<
+      InferOutput<S> & { reasoning: string },
+      GenerateTextResult<
+        InferTools<S>,
+        Output.Output<InferOutput<S> & { reasoning: string }>
+      >
+    >
+  > {
+    return (await super.run(input, config)) as any;
+  }
+
+  async forward(
+    input: InferInput<S>,
+    config: PredictConfig = {}
+  ): Promise<
+    Prediction<
+      InferOutput<S> & { reasoning: string },
+      GenerateTextResult<
+        InferTools<S>,
+        Output.Output<InferOutput<S> & { reasoning: string }>
+      >
+    >
+  > {
+    return (await this.predict.run(input, config)) as any;
+  }
+}
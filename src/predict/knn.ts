@@ -0,0 +1,103 @@
+import { cosineSimilarity, embed, embedMany, type EmbeddingModel } from "ai";
+import type { Example } from "../primitives/example";
+
+/**
+ * The embedded trainset of a KNN, as saved with the program state.
+ */
+export interface KNNState {
+  trainset_vectors: number[][] | null;
+}
+
+/**
+ * KNN retrieves the `k` examples of the trainset most similar to some inputs, matching dspy.KNN.
+ *
+ * Examples are embedded from their input fields, formatted as `key: value` pairs joined by
+ * ` | `. The trainset is embedded on the first retrieval and kept in memory; `dump_state` and
+ * `load_state` save and restore the vectors, so a loaded program doesn't embed it again.
+ * Unlike DSPy, which ranks by dot product, examples are ranked by cosine similarity, so the
+ * embeddings don't need to be normalized.
+ *
+ * @param options.vectorizer - The AI SDK embedding model, e.g. `openai.embedding("text-embedding-3-small")`.
+ */
+export class KNN {
+  public k: number;
+  public trainset: Example<any>[];
+  public vectorizer: EmbeddingModel;
+  public trainset_vectors: number[][] | null = null;
+  private indexing: Promise<number[][]> | null = null;
+
+  constructor({
+    k,
+    trainset,
+    vectorizer,
+  }: {
+    k: number;
+    trainset: Example<any>[];
+    vectorizer: EmbeddingModel;
+  }) {
+    this.k = k;
+    this.trainset = trainset;
+    this.vectorizer = vectorizer;
+  }
+
+  /**
+   * Returns the `k` nearest examples to the inputs, most similar first.
+   */
+  async run(inputs: Record<string, any>): Promise<Example<any>[]> {
+    const trainset_vectors = await this.index();
+    const { embedding } = await embed({
+      model: this.vectorizer,
+      value: to_text(inputs),
+    });
+
+    return trainset_vectors
+      .map((vector, i) => ({ i, score: cosineSimilarity(vector, embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.k)
+      .map(({ i }) => this.trainset[i]!);
+  }
+
+  /**
+   * Embeds the trainset, once, even if several retrievals start at the same time.
+   */
+  private async index(): Promise<number[][]> {
+    if (this.trainset_vectors) {
+      return this.trainset_vectors;
+    }
+    this.indexing ??= embedMany({
+      model: this.vectorizer,
+      values: this.trainset.map((example) =>
+        to_text(example.inputs().toDict())
+      ),
+    }).then(({ embeddings }) => (this.trainset_vectors = embeddings));
+
+    try {
+      return await this.indexing;
+    } finally {
+      this.indexing = null;
+    }
+  }
+
+  dump_state(): KNNState {
+    return { trainset_vectors: this.trainset_vectors };
+  }
+
+  load_state(state: KNNState): void {
+    const vectors = state.trainset_vectors;
+    if (vectors && vectors.length !== this.trainset.length) {
+      throw new Error(
+        `The saved index has ${vectors.length} vectors but the trainset has ${this.trainset.length} examples`
+      );
+    }
+    this.trainset_vectors = vectors;
+  }
+}
+
+function to_text(inputs: Record<string, any>): string {
+  return Object.entries(inputs)
+    .map(
+      ([key, value]) =>
+        `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`
+    )
+    .join(" | ");
+}
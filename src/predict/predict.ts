@@ -1,5 +1,6 @@
 import { Module } from "../primitives/module";
 import { Prediction } from "../primitives/prediction";
+import { Example, type ExampleData } from "../primitives/example";
 import type {
   //   Signature,
   InferInput,
@@ -11,16 +12,56 @@ import type { LM } from "../clients/lm";
 import { ChatAdapter } from "../adapters/chat_adapter";
 import type { Adapter } from "../adapters/base";
 import { Signature } from "../signatures/signature";
+import { ContextWindowExceededError } from "../exceptions";
 import { z } from "zod";
-import type { GenerateTextResult, Output, ToolSet } from "ai";
+import type {
+  CallSettings,
+  GenerateTextResult,
+  Output,
+  StopCondition,
+  StreamTextResult,
+  ToolSet,
+} from "ai";
+import {
+  streamify,
+  streamStorage,
+  type StreamEvent,
+} from "../streaming/streamify";
+
+/**
+ * LM call settings for a Predict (e.g. temperature, maxOutputTokens, stopSequences, stopWhen).
+ * They are passed to the adapter as lm_kwargs.
+ */
+export type PredictConfig = CallSettings & {
+  stopWhen?: StopCondition<ToolSet> | StopCondition<ToolSet>[];
+};
+
+/**
+ * How a Predict shrinks its prompt and retries when the LM reports a context window overflow.
+ *
+ * - `drop_demos`: drop the oldest demo, one at a time.
+ * - `truncate_history`: drop the oldest turn of the `History` input field, one at a time.
+ * - `auto`: drop the demos first, then truncate the history.
+ */
+export type ContextWindowStrategy = "drop_demos" | "truncate_history" | "auto";
+
+export interface PredictOptions {
+  context_window_strategy?: ContextWindowStrategy;
+}
 
 export class Predict<S extends Signature = Signature> extends Module<S> {
   public signature: S | Signature;
   public lm: LM | null;
   public adapter: Adapter;
+  public config: PredictConfig;
+  public context_window_strategy?: ContextWindowStrategy;
   public isPredict: true;
 
-  constructor(signature: S | string) {
+  constructor(
+    signature: S | string,
+    config: PredictConfig = {},
+    { context_window_strategy }: PredictOptions = {}
+  ) {
     super();
     if (typeof signature === "string") {
       this.signature = Signature.parse(signature);
@@ -29,52 +70,171 @@ export class Predict<S extends Signature = Signature> extends Module<S> {
     }
     this.lm = settings.lm;
     this.adapter = settings.adapter ?? new ChatAdapter();
+    this.config = config;
+    this.context_window_strategy = context_window_strategy;
     this.isPredict = true;
   }
 
+  /**
+   * Runs the predictor. The per-call config overrides the config given to the constructor.
+   */
   override async run(
-    input: InferInput<S>
+    input: InferInput<S>,
+    config: PredictConfig = {}
   ): Promise<
     Prediction<
       InferOutput<S>,
       GenerateTextResult<InferTools<S>, Output.Output<InferOutput<S>>>
     >
   > {
-    return super.run(input);
+    return super.run(input, config);
   }
 
   async forward(
-    input: InferInput<S>
+    input: InferInput<S>,
+    config: PredictConfig = {}
   ): Promise<
     Prediction<
       InferOutput<S>,
       GenerateTextResult<InferTools<S>, Output.Output<InferOutput<S>>>
     >
   > {
-    if (!this.lm) {
+    const lm = this.lm;
+    if (!lm) {
       throw new Error("LM not set");
     }
-    const result = await this.adapter.run(
-      this.lm,
-      {},
-      this.signature,
-      [],
-      input
-    );
+    const lm_kwargs = { ...this.config, ...config };
+
+    // Inside streamify, stream the LM call and emit partial outputs as they arrive
+    const streamContext = streamStorage.getStore();
+    if (streamContext) {
+      return this.with_context_window_strategy(input, async (demos, inputs) => {
+        const result = await this.adapter.stream(
+          lm,
+          lm_kwargs,
+          this.signature,
+          demos,
+          inputs
+        );
+        for await (const partial of result.partialOutputStream) {
+          streamContext.emit(this, partial as Record<string, any>);
+        }
+        const output = (await result.output) as InferOutput<S>;
+        streamContext.finish(this, output);
+        return new Prediction(output, result) as any;
+      });
+    }
+
+    return this.with_context_window_strategy(input, async (demos, inputs) => {
+      const result = await this.adapter.run(
+        lm,
+        lm_kwargs,
+        this.signature,
+        demos,
+        inputs
+      );
+
+      const output = result.output as InferOutput<S>;
+      return new Prediction(output, result) as any;
+    });
+  }
 
-    const output = result.output as InferOutput<S>;
-    return new Prediction(output, result) as any;
+  /**
+   * Calls the LM with the demos and inputs, shrinking them with `context_window_strategy`
+   * and calling it again for as long as the LM reports a context window overflow.
+   * The predictor's own demos are left untouched.
+   */
+  private async with_context_window_strategy<R>(
+    input: InferInput<S>,
+    call: (demos: ExampleData<S>[], inputs: InferInput<S>) => Promise<R>
+  ): Promise<R> {
+    let demos = this.demos;
+    let inputs = input;
+
+    while (true) {
+      try {
+        return await call(demos, inputs);
+      } catch (e) {
+        if (!(e instanceof ContextWindowExceededError)) {
+          throw e;
+        }
+
+        const strategy = this.context_window_strategy;
+        const historyFieldName = this.adapter._get_history_field_name(
+          this.signature
+        );
+        const history = historyFieldName ? inputs[historyFieldName] : undefined;
+
+        if (
+          (strategy === "drop_demos" || strategy === "auto") &&
+          demos.length > 0
+        ) {
+          demos = demos.slice(1);
+        } else if (
+          (strategy === "truncate_history" || strategy === "auto") &&
+          Array.isArray(history) &&
+          history.length > 0
+        ) {
+          inputs = { ...inputs, [historyFieldName!]: history.slice(1) };
+        } else {
+          throw e;
+        }
+      }
+    }
+  }
+
+  /**
+   * Streams the predictor, yielding partial outputs followed by the final Prediction.
+   * Tracing is recorded once the stream finishes, as with run.
+   */
+  stream(
+    input: InferInput<S>,
+    config: PredictConfig = {}
+  ): AsyncGenerator<
+    StreamEvent<
+      Prediction<
+        InferOutput<S>,
+        StreamTextResult<InferTools<S>, Output.Output<InferOutput<S>>>
+      >
+    >
+  > {
+    return streamify<Predict<S>>(this)(input, config) as any;
+  }
+
+  /**
+   * Clears the demos and traces of the predictor. Unlike DSPy, the LM is kept, since it is bound
+   * when the predictor is created.
+   */
+  reset(): void {
+    this.demos = [];
+    this.traces = [];
   }
 
   setLM(lm: LM) {
     this.lm = lm;
   }
 
+  /**
+   * Dumps the predictor state in DSPy's layout, so it can be loaded by dspy.Predict.load_state.
+   */
   override dump_state(): any {
-    return this.signature.dump_state();
+    return {
+      traces: [],
+      train: [],
+      demos: this.demos.map((demo) =>
+        demo instanceof Example ? demo.toDict() : { ...demo }
+      ),
+      signature: this.signature.dump_state(),
+      lm: null,
+    };
   }
 
   override load_state(state: any): void {
-    this.signature = this.signature.load_state(state);
+    // States saved before demos were persisted hold the signature state at the top level
+    const signatureState = state.signature ?? state;
+    this.signature = this.signature.load_state(signatureState);
+    this.demos = (state.demos ?? []).map(
+      (demo: ExampleData<S>) => new Example<S>(demo)
+    );
   }
 }
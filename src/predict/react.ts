@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { asSchema, type Tool, type ToolSet } from "ai";
+import { Module } from "../primitives/module";
+import { Prediction } from "../primitives/prediction";
+import { Predict } from "./predict";
+import { ChainOfThought } from "./chain_of_thought";
+import {
+  Signature,
+  type InferInput,
+  type InferOutput,
+} from "../signatures/signature";
+import { AdapterParseError } from "../exceptions";
+
+/**
+ * The trajectory of a ReAct run, keyed like DSPy's:
+ * thought_0, tool_name_0, tool_args_0, observation_0, thought_1, ...
+ */
+export type Trajectory = Record<string, any>;
+
+/**
+ * ReAct implements the DSPy-style Reasoning and Acting agent loop.
+ *
+ * Each iteration, the `react` predictor produces a thought, picks one of the tools from
+ * `signature.tools` (or `finish`) and its arguments. The tool's result is appended to the
+ * trajectory as an observation. Once the agent finishes (or `max_iters` is reached),
+ * the `extract` module produces the signature's output fields from the trajectory.
+ */
+export class ReAct<S extends Signature = Signature> extends Module<S> {
+  public signature: S;
+  public max_iters: number;
+  public tools: ToolSet;
+  public react: Predict;
+  public extract: ChainOfThought;
+
+  constructor(signature: S, max_iters: number = 20) {
+    super();
+    this.signature = signature;
+    this.max_iters = max_iters;
+    this.tools = signature.tools ?? {};
+
+    const inputs = Object.keys(signature.input.shape)
+      .map((k) => `\`${k}\``)
+      .join(", ");
+    const outputs = Object.keys(signature.output.shape)
+      .map((k) => `\`${k}\``)
+      .join(", ");
+
+    const instr = signature.instructions ? [`${signature.instructions}\n`] : [];
+    instr.push(
+      `You are an Agent. In each episode, you will be given the fields ${inputs} as input. And you can see your past trajectory so far.`,
+      `Your goal is to use one or more of the supplied tools to collect any necessary information for producing ${outputs}.\n`,
+      "To do this, you will interleave next_thought, next_tool_name, and next_tool_args in each turn, and also when finishing the task.",
+      "After each tool call, you receive a resulting observation, which gets appended to your trajectory.\n",
+      "When writing next_thought, you may reason about the current situation and plan for future steps.",
+      "When selecting the next_tool_name and its next_tool_args, the tool must be one of:\n"
+    );
+
+    const toolNames = Object.keys(this.tools);
+    toolNames.forEach((name, idx) => {
+      instr.push(`(${idx + 1}) ${describe_tool(name, this.tools[name]!)}`);
+    });
+    instr.push(
+      `(${
+        toolNames.length + 1
+      }) finish, whose description is <desc>Marks the task as complete. That is, signals that all information for producing the outputs, i.e. ${outputs}, are now available to be extracted.</desc>. It takes arguments {}.`
+    );
+    instr.push(
+      "When providing `next_tool_args`, the value inside the field must be in JSON format"
+    );
+
+    // The tools are described in the instructions instead of being passed to the LM,
+    // so the react and extract signatures are built without them.
+    const react_signature = new Signature({
+      instructions: instr.join("\n"),
+      input: signature.input.extend({ trajectory: z.string() }),
+      output: z.object({
+        next_thought: z.string(),
+        next_tool_name: z.enum([...toolNames, "finish"] as string[] as [
+          string,
+          ...string[]
+        ]),
+        next_tool_args: z.record(z.string(), z.any()),
+      }),
+    });
+
+    const fallback_signature = new Signature({
+      instructions: signature.instructions,
+      input: signature.input.extend({ trajectory: z.string() }),
+      output: signature.output,
+      prefixes: signature.prefixes,
+    });
+
+    this.react = new Predict(react_signature);
+    this.extract = new ChainOfThought(fallback_signature);
+  }
+
+  override async run(
+    input: InferInput<S>
+  ): Promise<Prediction<InferOutput<S> & { trajectory: Trajectory }, any>> {
+    return (await super.run(input)) as any;
+  }
+
+  async forward(
+    input: InferInput<S>
+  ): Promise<Prediction<InferOutput<S> & { trajectory: Trajectory }, any>> {
+    const trajectory: Trajectory = {};
+
+    for (let idx = 0; idx < this.max_iters; idx++) {
+      let pred;
+      try {
+        pred = await this.react.run({
+          ...input,
+          trajectory: this._format_trajectory(trajectory),
+        });
+      } catch (e) {
+        // The agent failed to select a valid tool, end the trajectory.
+        if (e instanceof AdapterParseError) break;
+        throw e;
+      }
+
+      const tool_name = pred.next_tool_name as string;
+      const tool_args = (pred.next_tool_args ?? {}) as Record<string, any>;
+
+      trajectory[`thought_${idx}`] = pred.next_thought;
+      trajectory[`tool_name_${idx}`] = tool_name;
+      trajectory[`tool_args_${idx}`] = tool_args;
+      trajectory[`observation_${idx}`] = await this._call_tool(
+        tool_name,
+        tool_args
+      );
+
+      if (tool_name === "finish") break;
+    }
+
+    const extract = await this.extract.run({
+      ...input,
+      trajectory: this._format_trajectory(trajectory),
+    });
+
+    const { _result, ...outputs } = extract;
+    return new Prediction({ ...outputs, trajectory }, _result) as any;
+  }
+
+  /**
+   * Executes a tool by name, turning failures into an observation the agent can react to.
+   */
+  async _call_tool(name: string, args: Record<string, any>): Promise<any> {
+    if (name === "finish") {
+      return "Completed.";
+    }
+
+    const tool = this.tools[name];
+    try {
+      if (!tool?.execute) {
+        throw new Error(`Tool ${name} is not available.`);
+      }
+      return await tool.execute(args, {
+        toolCallId: crypto.randomUUID(),
+        messages: [],
+      });
+    } catch (e) {
+      return `Execution error in ${name}: ${
+        e instanceof Error ? e.message : String(e)
+      }`;
+    }
+  }
+
+  _format_trajectory(trajectory: Trajectory): string {
+    const trajectory_signature = Signature.parse(
+      `${Object.keys(trajectory).join(", ")} -> x`
+    );
+    return this.react.adapter.format_user_message_content(
+      trajectory_signature,
+      trajectory,
+      {}
+    );
+  }
+}
+
+/**
+ * Describes a tool the same way DSPy's Tool.__str__ does.
+ */
+function describe_tool(name: string, tool: Tool): string {
+  let args: Record<string, any> = {};
+  if (tool.inputSchema) {
+    const jsonSchema = asSchema(tool.inputSchema).jsonSchema;
+    // Schemas that resolve asynchronously are described without their arguments
+    if (!("then" in jsonSchema)) {
+      args = (jsonSchema.properties as Record<string, any>) ?? {};
+    }
+  }
+  return `${name}, whose description is <desc>${
+    tool.description ?? ""
+  }</desc>. It takes arguments ${JSON.stringify(args)}.`;
+}
@@ -0,0 +1,164 @@
+import type {
+  Signature,
+  InferInput,
+  InferOutput,
+} from "../signatures/signature";
+
+/**
+ * The fields of an Example of a signature: any of its input and output fields.
+ */
+export type ExampleData<S extends Signature = Signature> = Partial<
+  InferInput<S> & InferOutput<S>
+>;
+
+interface ExampleMethods<S extends Signature> {
+  /**
+   * The names of the input fields, set with `withInputs`. Not enumerable, so spreading an
+   * Example only copies its fields.
+   */
+  _input_keys: string[] | null;
+
+  /**
+   * Returns a copy of the example with the given fields marked as inputs.
+   */
+  withInputs(...keys: (keyof ExampleData<S> & string)[]): Example<S>;
+
+  /**
+   * Returns a new example with only the input fields.
+   */
+  inputs(): Example<S>;
+
+  /**
+   * Returns a new example with only the label fields, i.e. the fields that are not inputs.
+   */
+  labels(): Example<S>;
+
+  /**
+   * Returns a copy of the example, with the given fields overridden.
+   */
+  copy(overrides?: ExampleData<S>): Example<S>;
+
+  /**
+   * Returns a copy of the example without the given fields.
+   */
+  without(...keys: (keyof ExampleData<S> & string)[]): Example<S>;
+
+  /**
+   * Returns the fields of the example as a plain object.
+   */
+  toDict(): ExampleData<S>;
+}
+
+/**
+ * Internal class implementation.
+ */
+class _Example {
+  declare _input_keys: string[] | null;
+
+  constructor(data: Record<string, any> = {}) {
+    Object.defineProperty(this, "_input_keys", {
+      value: null,
+      writable: true,
+      enumerable: false,
+    });
+    Object.assign(this, data);
+  }
+
+  withInputs(...keys: string[]): _Example {
+    const copy = this.copy();
+    copy._input_keys = keys;
+    return copy;
+  }
+
+  inputs(): _Example {
+    if (this._input_keys === null) {
+      throw new Error(
+        "Inputs have not been set for this example. Use `example.withInputs()` to set them."
+      );
+    }
+
+    const input_keys = this._input_keys;
+    const data = Object.fromEntries(
+      Object.entries(this.toDict()).filter(([key]) => input_keys.includes(key))
+    );
+    const inputs = new _Example(data);
+    inputs._input_keys = [...input_keys];
+    return inputs;
+  }
+
+  labels(): _Example {
+    const input_keys = Object.keys(this.inputs().toDict());
+    return new _Example(
+      Object.fromEntries(
+        Object.entries(this.toDict()).filter(
+          ([key]) => !input_keys.includes(key)
+        )
+      )
+    );
+  }
+
+  copy(overrides: Record<string, any> = {}): _Example {
+    const copy = new _Example({ ...this.toDict(), ...overrides });
+    copy._input_keys = this._input_keys && [...this._input_keys];
+    return copy;
+  }
+
+  without(...keys: string[]): _Example {
+    const copy = this.copy();
+    for (const key of keys) {
+      delete (copy as Record<string, any>)[key];
+    }
+    return copy;
+  }
+
+  toDict(): Record<string, any> {
+    return { ...this };
+  }
+
+  static from(signature: Signature, data: Record<string, any>): _Example {
+    const validated = {
+      ...data,
+      ...signature.input.parse(data),
+      ...signature.output.partial().parse(data),
+    };
+    return new _Example(validated).withInputs(
+      ...Object.keys(signature.input_fields)
+    );
+  }
+}
+
+/**
+ * An Example holds the fields of a training or demo example of a signature, matching dspy.Example.
+ * Like Prediction, its fields are set directly on the instance, so fields named like one of its
+ * methods (e.g. `inputs`) are not supported.
+ *
+ * @example
+ * ```ts
+ * const example = Example.from(signature, { question: "2+2?", answer: "4" });
+ * example.inputs(); // { question: "2+2?" }
+ * example.labels(); // { answer: "4" }
+ *
+ * const untyped = new Example({ question: "2+2?", answer: "4" }).withInputs("question");
+ * ```
+ */
+export type Example<S extends Signature = Signature> = ExampleData<S> &
+  ExampleMethods<S>;
+
+/**
+ * The Example class.
+ */
+export const Example = _Example as unknown as {
+  /**
+   * Create an Example from its fields, without input keys.
+   */
+  new <S extends Signature = Signature>(data?: ExampleData<S>): Example<S>;
+
+  /**
+   * Create an Example of a signature, validated against its input schema and (partially) its
+   * output schema, with the signature's input fields marked as inputs.
+   */
+  from<S extends Signature>(
+    signature: S,
+    data: InferInput<S> & Partial<InferOutput<S>>
+  ): Example<S>;
+};
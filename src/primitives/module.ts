@@ -1,5 +1,6 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 import type { Prediction } from "./prediction";
+import type { ExampleData } from "./example";
 import type {
   Signature,
   InferInput,
@@ -7,61 +8,155 @@ import type {
 } from "../signatures/signature";
 import type { Predict } from "../predict/predict";
 
-type DSTsTrace = {
+export type DSTsTrace = {
   module: string;
+  /**
+   * The module that was run, so optimizers can map trace entries back to their predictors.
+   */
+  instance: Module<any>;
+  /**
+   * The name of the predictor in `named_predictors()` of the outermost module that was run.
+   * Only set on the entries of predictors.
+   */
+  name?: string;
   example: any;
   prediction: Prediction<any, any>;
 }[];
 
 export const traceStorage = new AsyncLocalStorage<DSTsTrace>();
 
+/**
+ * Calls `fn` and returns its result with the trace of the module runs made during the call,
+ * outermost run last. The entries are also added to the enclosing trace, if any.
+ *
+ * @example
+ * ```ts
+ * const { result: prediction, trace } = await withTrace(() => program.run({ question }));
+ * trace.filter(({ name }) => name === "generate_query");
+ * ```
+ */
+export async function withTrace<R>(
+  fn: () => Promise<R>
+): Promise<{ result: R; trace: DSTsTrace }> {
+  const trace: DSTsTrace = [];
+  const result = await traceStorage.run(trace, fn);
+  traceStorage.getStore()?.push(...trace);
+  return { result, trace };
+}
+
 export abstract class Module<S extends Signature = Signature> {
+  /**
+   * The trace of the last run of the module.
+   */
   public traces: DSTsTrace = [];
-  public demos: any[] = [];
+  public demos: ExampleData<S>[] = [];
+  /**
+   * Set by optimizers on the programs they return.
+   */
+  public _compiled: boolean = false;
 
   constructor() {}
 
   abstract forward(
-    input: InferInput<S>
+    input: InferInput<S>,
+    ...args: any[]
   ): Promise<Prediction<InferOutput<S>, any>>;
 
-  async run(input: InferInput<S>): Promise<Prediction<InferOutput<S>, any>> {
+  /**
+   * Runs forward with tracing. Any extra arguments (e.g. a per-call config) are passed to forward.
+   * Use `withTrace` to get the trace of a run.
+   */
+  async run(
+    input: InferInput<S>,
+    ...args: any[]
+  ): Promise<Prediction<InferOutput<S>, any>> {
     const currentRunTrace: DSTsTrace = [];
 
     const prediction = await traceStorage.run(currentRunTrace, async () => {
-      return await this.forward(input);
+      return await this.forward(input, ...args);
     });
 
     // Collect all traces from this run (children pushed to currentRunTrace)
-    this.traces.push(...currentRunTrace);
-    this.traces.push({
+    currentRunTrace.push({
       module: this.constructor.name,
+      instance: this,
       example: input,
       prediction,
     });
 
-    // Propagate to parent if exists
+    // Name the predictor entries relative to this module. A parent renames its own copies.
+    const names = new Map<Module<any>, string>(
+      this.named_predictors().map(({ name, predictor }) => [predictor, name])
+    );
+    for (const entry of currentRunTrace) {
+      const name = names.get(entry.instance);
+      if (name !== undefined) entry.name = name;
+    }
+    this.traces = currentRunTrace;
+
+    // Propagate this run's traces to the parent if exists
     const parentTrace = traceStorage.getStore();
     if (parentTrace) {
-      parentTrace.push(...this.traces);
+      parentTrace.push(...currentRunTrace.map((entry) => ({ ...entry })));
     }
 
     return prediction;
   }
 
   /**
-   * Returns a list of all predictors in the module.
+   * Returns a list of all predictors in the module, named as in `named_parameters()`.
+   * A bare predictor is its own only predictor, named `self`, as in DSPy.
    * (recursive)
    */
   named_predictors(): { name: string; predictor: Predict<any> }[] {
-    const result: { name: string; predictor: Predict<any> }[] = [];
+    return this.named_parameters().map(({ name, parameter }) => ({
+      name,
+      predictor: parameter,
+    }));
+  }
 
-    for (const { name, sub_module } of this.named_sub_modules()) {
-      if (isPredictObject(sub_module)) {
-        result.push({
-          name: name,
-          predictor: sub_module as Predict<any>,
-        });
+  /**
+   * Returns the predictors (the parameters of a program) in DSPy's naming, matching
+   * dspy.Module.named_parameters: `self` for a bare predictor, `a.b` for nested modules,
+   * `a[0]` for arrays and `a['key']` for plain objects. A predictor reachable under several
+   * names is listed once, and the predictors of compiled submodules are left out so optimizers
+   * keep them frozen.
+   */
+  named_parameters(): { name: string; parameter: Predict<any> }[] {
+    const visited = new Set<Module<any>>();
+    const result: { name: string; parameter: Predict<any> }[] = [];
+
+    const add_parameter = (name: string, value: unknown) => {
+      if (isPredictObject(value)) {
+        if (!visited.has(value as any)) {
+          visited.add(value as any);
+          result.push({ name, parameter: value as any });
+        }
+      } else if (value instanceof Module && !value._compiled) {
+        for (const { name: sub_name, parameter } of value.named_parameters()) {
+          add_parameter(`${name}.${sub_name}`, parameter);
+        }
+      }
+    };
+
+    if (isPredictObject(this)) {
+      add_parameter("self", this);
+    }
+    for (const [key, value] of Object.entries(this)) {
+      if (key === "traces" || key === "demos") continue;
+
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => add_parameter(`${key}[${i}]`, item));
+      } else if (
+        typeof value === "object" &&
+        value !== null &&
+        value.constructor === Object
+      ) {
+        for (const [sub_key, item] of Object.entries(value)) {
+          add_parameter(`${key}['${sub_key}']`, item);
+        }
+      } else {
+        add_parameter(key, value);
       }
     }
 
@@ -132,17 +227,43 @@ export abstract class Module<S extends Signature = Signature> {
     return result;
   }
 
+  /**
+   * Returns a deep copy of the module: submodules (including predictors), arrays and plain
+   * objects are copied, while other values (LMs, adapters, signatures, examples) are shared.
+   * A submodule referenced twice is copied once, so the copy has the same structure.
+   * Trace entries are shared too, since they point back to the modules that were run.
+   */
+  deepcopy(): this {
+    return deepcopy_value(this, new Map()) as this;
+  }
+
+  /**
+   * Returns a deep copy of the module with the demos of its parameters and the traces of every
+   * module cleared, matching dspy.Module.reset_copy.
+   */
+  reset_copy(): this {
+    const copy = this.deepcopy();
+    copy.traces = [];
+    for (const { sub_module } of copy.named_sub_modules()) {
+      sub_module.traces = [];
+    }
+    for (const { parameter } of copy.named_parameters()) {
+      parameter.reset();
+    }
+    return copy;
+  }
+
   dump_state() {
     const state: Record<string, any> = {};
-    for (const { name, predictor } of this.named_predictors()) {
-      state[name] = predictor.dump_state();
+    for (const { name, parameter } of this.named_parameters()) {
+      state[name] = parameter.dump_state();
     }
     return state;
   }
 
   load_state(state: Record<string, any>): void {
-    for (const { name, predictor } of this.named_predictors()) {
-      predictor.load_state(state[name]);
+    for (const { name, parameter } of this.named_parameters()) {
+      parameter.load_state(state[name]);
     }
   }
 
@@ -164,3 +285,37 @@ function isPredictObject(value: unknown): value is { isPredict: true } {
     (value as any).isPredict === true
   );
 }
+
+/**
+ * Copies modules, arrays and plain objects. `copies` maps the modules already copied to their
+ * copy, so shared and circular references are preserved.
+ */
+function deepcopy_value(
+  value: unknown,
+  copies: Map<Module<any>, Module<any>>
+): unknown {
+  if (value instanceof Module) {
+    const existing = copies.get(value);
+    if (existing) return existing;
+
+    const copy = Object.create(Object.getPrototypeOf(value));
+    copies.set(value, copy);
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = key === "traces" ? [...item] : deepcopy_value(item, copies);
+    }
+    return copy;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => deepcopy_value(item, copies));
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    value.constructor === Object
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, deepcopy_value(v, copies)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { Signature } from "../signatures/signature";
+import { Predict } from "../predict/predict";
+import type { LM } from "../clients/lm";
+import type { Example } from "../primitives/example";
+import { strip_prefix } from "./utils";
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const ObservationSummarizer = new Signature({
+  instructions:
+    "Given a series of observations I have made about my dataset, please summarize them into a brief 2-3 sentence summary which highlights only the most important details.",
+  input: z.object({
+    observations: z
+      .string()
+      .describe("Observations I have made about my dataset"),
+  }),
+  output: z.object({
+    summary: z
+      .string()
+      .describe(
+        "Two to Three sentence summary of only the most significant highlights of my observations"
+      ),
+  }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const DatasetDescriptor = new Signature({
+  instructions:
+    "Given several examples from a dataset please write observations about trends that hold for most or all of the samples. " +
+    "Some areas you may consider in your observations: topics, content, syntax, conciceness, etc. " +
+    "It will be useful to make an educated guess as to the nature of the task this dataset will enable. Don't be afraid to be creative",
+  input: z.object({
+    examples: z.string().describe("Sample data points from the dataset"),
+  }),
+  output: z.object({
+    observations: z
+      .string()
+      .describe(
+        "Somethings that holds true for most or all of the data you observed"
+      ),
+  }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const DatasetDescriptorWithPriorObservations = new Signature({
+  instructions:
+    "Given several examples from a dataset please write observations about trends that hold for most or all of the samples. " +
+    "I will also provide you with a few observations I have already made.  Please add your own observations or if you feel the observations are comprehensive say 'COMPLETE' " +
+    "Some areas you may consider in your observations: topics, content, syntax, conciceness, etc. " +
+    "It will be useful to make an educated guess as to the nature of the task this dataset will enable. Don't be afraid to be creative",
+  input: z.object({
+    examples: z.string().describe("Sample data points from the dataset"),
+    prior_observations: z
+      .string()
+      .describe("Some prior observations I made about the data"),
+  }),
+  output: z.object({
+    observations: z
+      .string()
+      .describe(
+        "Somethings that holds true for most or all of the data you observed or COMPLETE if you have nothing to add"
+      ),
+  }),
+});
+
+/**
+ * Has the prompt model describe the trainset, `view_data_batch_size` examples at a time (at
+ * most ten batches), and summarizes its observations in a few sentences.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export async function create_dataset_summary(
+  trainset: Example<any>[],
+  view_data_batch_size: number,
+  prompt_model: LM | null
+): Promise<string> {
+  const predict = <P extends Predict<any>>(predictor: P): P => {
+    if (prompt_model) predictor.setLM(prompt_model);
+    return predictor;
+  };
+  const format_examples = (examples: Example<any>[]) =>
+    JSON.stringify(examples.map((example) => example.toDict()));
+
+  const config = { temperature: 1.0 };
+  const first = await predict(new Predict(DatasetDescriptor)).run(
+    { examples: format_examples(trainset.slice(0, view_data_batch_size)) },
+    config
+  );
+  let observations = first.observations;
+
+  const with_prior = predict(
+    new Predict(DatasetDescriptorWithPriorObservations)
+  );
+  const max_calls = 10;
+  let calls = 0;
+  let skips = 0;
+  for (
+    let b = view_data_batch_size;
+    b < trainset.length;
+    b += view_data_batch_size
+  ) {
+    calls++;
+    if (calls >= max_calls) break;
+
+    const output = await with_prior.run(
+      {
+        prior_observations: observations,
+        examples: format_examples(trainset.slice(b, b + view_data_batch_size)),
+      },
+      config
+    );
+    if (output.observations.slice(0, 8).toUpperCase() === "COMPLETE") {
+      skips++;
+      if (skips >= 5) break;
+      continue;
+    }
+    observations += output.observations;
+  }
+
+  const { summary } = await predict(new Predict(ObservationSummarizer)).run(
+    { observations },
+    config
+  );
+  return strip_prefix(summary);
+}
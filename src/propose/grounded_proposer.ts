@@ -0,0 +1,347 @@
+import { z } from "zod";
+import { Signature } from "../signatures/signature";
+import { Predict } from "../predict/predict";
+import type { LM } from "../clients/lm";
+import type { Module } from "../primitives/module";
+import type { Example, ExampleData } from "../primitives/example";
+import { Random } from "../utils/random";
+import { AdapterParseError } from "../exceptions";
+import { create_dataset_summary } from "./dataset_summary_generator";
+import { create_example_string, strip_prefix } from "./utils";
+
+/**
+ * Tips the proposer picks from at random, to diversify the proposed instructions.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export const TIPS: Record<string, string> = {
+  none: "",
+  creative: "Don't be afraid to be creative when creating the new instruction!",
+  simple: "Keep the instruction clear and concise.",
+  description:
+    "Make sure your instruction is very informative and descriptive.",
+  high_stakes:
+    "The instruction should include a high stakes scenario in which the LM must solve the task!",
+  persona:
+    'Include a persona that is relevant to the task in the instruction (ie. "You are a ...")',
+};
+
+const program_code = z
+  .string()
+  .describe(
+    "Pseudocode for a language model program designed to solve a particular task."
+  );
+const program_example = z
+  .string()
+  .describe("An example of the program in use.");
+const program_description = z
+  .string()
+  .describe(
+    "Summary of the task the program is designed to solve, and how it goes about solving it."
+  );
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const DescribeProgram = new Signature({
+  instructions:
+    "Below is some pseudo-code for a pipeline that solves tasks with calls to language models. Please describe what type of task this program appears to be designed to solve, and how it appears to work.",
+  input: z.object({ program_code, program_example }),
+  output: z.object({
+    program_description: z
+      .string()
+      .describe(
+        "Describe what task the program is designed to solve, and how it goes about solving this task."
+      ),
+  }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const DescribeModule = new Signature({
+  instructions:
+    "Below is some pseudo-code for a pipeline that solves tasks with calls to language models. Please describe the purpose of one of the specified module in this pipeline.",
+  input: z.object({
+    program_code,
+    program_example,
+    program_description,
+    module: z
+      .string()
+      .describe("The module in the program that we want to describe."),
+  }),
+  output: z.object({
+    module_description: z
+      .string()
+      .describe("Description of the module's role in the broader program."),
+  }),
+});
+
+/**
+ * Builds the signature of the instruction proposer, with only the inputs the proposer uses.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function generate_instruction_class({
+  use_dataset_summary = true,
+  program_aware = true,
+  use_task_demos = true,
+  use_tip = true,
+}: {
+  use_dataset_summary?: boolean;
+  program_aware?: boolean;
+  use_task_demos?: boolean;
+  use_tip?: boolean;
+} = {}): Signature {
+  const input: Record<string, z.ZodType> = {};
+  if (use_dataset_summary) {
+    input.dataset_description = z
+      .string()
+      .describe("A description of the dataset that we are using.");
+  }
+  if (program_aware) {
+    input.program_code = z
+      .string()
+      .describe("Language model program designed to solve a particular task.");
+    input.program_description = program_description;
+    input.module = z
+      .string()
+      .describe("The module to create an instruction for.");
+    input.module_description = z
+      .string()
+      .describe("Description of the module to create an instruction for.");
+  }
+  if (use_task_demos) {
+    input.task_demos = z
+      .string()
+      .describe("Example inputs/outputs of our module.");
+  }
+  input.basic_instruction = z.string().describe("Basic instruction.");
+  if (use_tip) {
+    input.tip = z
+      .string()
+      .describe(
+        "A suggestion for how to go about generating the new instruction."
+      );
+  }
+
+  return new Signature({
+    instructions:
+      "Use the information below to learn about a task that we are trying to solve using calls to an LM, then generate a new instruction that will be used to prompt a Language Model to better solve the task.",
+    input: z.object(input),
+    output: z.object({
+      proposed_instruction: z
+        .string()
+        .describe(
+          "Propose an instruction that will be used to prompt a Language Model to perform this task."
+        ),
+    }),
+  });
+}
+
+/**
+ * GroundedProposer proposes instructions for the predictors of a program, grounded in a summary
+ * of the trainset, a description of the program and of each predictor, demos of the predictor,
+ * and a randomly picked tip. Matches dspy.propose.GroundedProposer.
+ *
+ * @param options.prompt_model - The LM writing the summaries and instructions. Defaults to the configured LM.
+ * @param options.view_data_batch_size - The number of examples shown at a time when summarizing the trainset.
+ * @param options.init_temperature - The temperature of instruction proposals, slightly jittered for each one.
+ */
+export class GroundedProposer {
+  public prompt_model: LM | null;
+  public program: Module<any>;
+  public view_data_batch_size: number;
+  public program_aware: boolean;
+  public use_dataset_summary: boolean;
+  public use_task_demos: boolean;
+  public use_tip: boolean;
+  public set_tip_randomly: boolean;
+  public init_temperature: number;
+  public data_summary: string | null = null;
+  public program_code_string: string | null = null;
+  /**
+   * The unparseable responses of the dataset summary and program description steps, which were
+   * skipped. Other errors (e.g. a missing LM) are thrown.
+   */
+  public errors: AdapterParseError[] = [];
+  private rng: Random;
+
+  constructor({
+    prompt_model = null,
+    program,
+    view_data_batch_size = 10,
+    program_aware = true,
+    use_dataset_summary = true,
+    use_task_demos = true,
+    use_tip = true,
+    set_tip_randomly = true,
+    init_temperature = 1.0,
+    rng = new Random(0),
+  }: {
+    prompt_model?: LM | null;
+    program: Module<any>;
+    view_data_batch_size?: number;
+    program_aware?: boolean;
+    use_dataset_summary?: boolean;
+    use_task_demos?: boolean;
+    use_tip?: boolean;
+    set_tip_randomly?: boolean;
+    init_temperature?: number;
+    rng?: Random;
+  }) {
+    this.prompt_model = prompt_model;
+    this.program = program;
+    this.view_data_batch_size = view_data_batch_size;
+    this.program_aware = program_aware;
+    this.use_dataset_summary = use_dataset_summary;
+    this.use_task_demos = use_task_demos;
+    this.use_tip = use_tip;
+    this.set_tip_randomly = set_tip_randomly;
+    this.init_temperature = init_temperature;
+    this.rng = rng;
+
+    if (program_aware) {
+      // The class source stands in for DSPy's program code
+      this.program_code_string = program.constructor.toString();
+    }
+  }
+
+  /**
+   * Proposes `N` instructions for each predictor of the program, indexed like
+   * `named_predictors()`. The first instruction of each predictor is its current one.
+   *
+   * @param demo_candidates - Candidate demo sets of each predictor, shown to the proposer in turn.
+   */
+  async propose_instructions_for_program({
+    trainset,
+    demo_candidates = null,
+    N,
+  }: {
+    trainset: Example<any>[];
+    demo_candidates?: ExampleData<any>[][][] | null;
+    N: number;
+  }): Promise<string[][]> {
+    if (this.use_dataset_summary && this.data_summary === null) {
+      try {
+        this.data_summary = await create_dataset_summary(
+          trainset,
+          this.view_data_batch_size,
+          this.prompt_model
+        );
+      } catch (e) {
+        if (!(e instanceof AdapterParseError)) throw e;
+        // Propose instructions without a dataset summary
+        this.errors.push(e);
+        this.use_dataset_summary = false;
+      }
+    }
+
+    const predictors = this.program.named_predictors();
+    const proposed_instructions: string[][] = [];
+
+    for (let pred_i = 0; pred_i < predictors.length; pred_i++) {
+      const { predictor } = predictors[pred_i]!;
+      const instructions = [predictor.signature.instructions ?? ""];
+
+      for (let i = 1; i < N; i++) {
+        let tip = "";
+        if (this.set_tip_randomly) {
+          tip = TIPS[this.rng.choice(Object.keys(TIPS))]!;
+        }
+        const demo_sets = demo_candidates?.[pred_i] ?? [];
+        const demos =
+          demo_sets.length > 0 ? demo_sets[i % demo_sets.length]! : [];
+
+        instructions.push(
+          await this.propose_instruction_for_predictor(pred_i, demos, tip)
+        );
+      }
+      proposed_instructions.push(instructions);
+    }
+
+    return proposed_instructions;
+  }
+
+  private async propose_instruction_for_predictor(
+    pred_i: number,
+    demos: ExampleData<any>[],
+    tip: string
+  ): Promise<string> {
+    const { predictor } = this.program.named_predictors()[pred_i]!;
+    const signature = predictor.signature;
+    const fields = [
+      ...Object.keys(signature.input_fields),
+      ...Object.keys(signature.output_fields),
+    ];
+    const task_demos =
+      demos.length > 0
+        ? demos.map((demo) => create_example_string(fields, demo)).join("\n\n")
+        : "No task demos provided.";
+
+    const inputs: Record<string, string> = {
+      basic_instruction: signature.instructions ?? "",
+    };
+    if (this.use_dataset_summary) {
+      inputs.dataset_description = this.data_summary ?? "";
+    }
+    if (this.use_task_demos) {
+      inputs.task_demos = task_demos;
+    }
+    if (this.use_tip) {
+      inputs.tip = tip;
+    }
+
+    let program_aware = this.program_aware;
+    if (program_aware) {
+      try {
+        const module = `${predictor.constructor.name}(${Object.keys(
+          signature.input_fields
+        ).join(", ")} -> ${Object.keys(signature.output_fields).join(", ")})`;
+        const { program_description } = await this.predict(DescribeProgram).run(
+          {
+            program_code: this.program_code_string!,
+            program_example: task_demos,
+          },
+          { temperature: 0.7 }
+        );
+        const { module_description } = await this.predict(DescribeModule).run(
+          {
+            program_code: this.program_code_string!,
+            program_example: task_demos,
+            program_description: strip_prefix(program_description),
+            module,
+          },
+          { temperature: 0.7 }
+        );
+        inputs.program_code = this.program_code_string!;
+        inputs.program_description = strip_prefix(program_description);
+        inputs.module = module;
+        inputs.module_description = strip_prefix(module_description);
+      } catch (e) {
+        if (!(e instanceof AdapterParseError)) throw e;
+        // Propose the instruction without the program description
+        this.errors.push(e);
+        program_aware = false;
+      }
+    }
+
+    const signature_class = generate_instruction_class({
+      use_dataset_summary: this.use_dataset_summary,
+      program_aware,
+      use_task_demos: this.use_task_demos,
+      use_tip: this.use_tip,
+    });
+    const { proposed_instruction } = await this.predict(signature_class).run(
+      inputs,
+      { temperature: this.init_temperature + this.rng.uniform(0.01, 0.05) }
+    );
+    return strip_prefix(String(proposed_instruction));
+  }
+
+  private predict<S extends Signature>(signature: S): Predict<S> {
+    const predictor = new Predict(signature);
+    if (this.prompt_model) predictor.setLM(this.prompt_model);
+    return predictor;
+  }
+}
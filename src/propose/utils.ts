@@ -0,0 +1,34 @@
+import type { ExampleData } from "../primitives/example";
+
+/**
+ * Removes a leading "Some Label:" (up to five words, optionally bolded) and surrounding quotes
+ * that LMs tend to echo back from field prefixes.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function strip_prefix(text: string): string {
+  return text
+    .replace(/^[*\s]*(([\w'-]+\s+){0,4}[\w'-]+):\s*/, "")
+    .replace(/^"+|"+$/g, "");
+}
+
+/**
+ * Formats the fields of an example as `Name: value` lines.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function create_example_string(
+  fields: string[],
+  example: ExampleData<any>
+): string {
+  const record = example as Record<string, any>;
+  return fields
+    .filter((name) => record[name] !== undefined)
+    .map((name) => {
+      const value = record[name];
+      return `${name}: ${
+        typeof value === "string" ? value : JSON.stringify(value)
+      }`;
+    })
+    .join("\n");
+}
@@ -28,7 +28,13 @@ export class Signature<
    */
   declare readonly InferOutput: z.infer<O>;
 
-  constructor(sig: { instructions?: string; input: I; output: O; tools?: T }) {
+  constructor(sig: {
+    instructions?: string;
+    input: I;
+    output: O;
+    tools?: T;
+    prefixes?: Record<string, string>;
+  }) {
     this.instructions =
       sig.instructions ||
       this.generateDefaultInstructions(sig.input, sig.output);
@@ -36,10 +42,10 @@ export class Signature<
     this.output = sig.output;
     this.tools = sig.tools;
 
-    // Initialize default prefixes
+    // Initialize prefixes, falling back to the default inferred prefix
     const allFields = { ...sig.input.shape, ...sig.output.shape };
     for (const name in allFields) {
-      this.prefixes[name] = infer_prefix(name) + ":";
+      this.prefixes[name] = sig.prefixes?.[name] ?? infer_prefix(name) + ":";
     }
   }
 
@@ -106,17 +112,59 @@ export class Signature<
       instructions: this.instructions,
       input: newInput,
       output: newOutput,
+      prefixes: this.prefixes,
+    });
+  }
+
+  /**
+   * Returns a new Signature with the field inserted at the start of either input or output.
+   * e.g. signature.prepend("output", "reasoning", z.string(), "Reasoning:")
+   */
+  prepend(
+    inputOrOutput: "input" | "output",
+    name: string,
+    field: z.ZodType,
+    prefix?: string
+  ): Signature<z.ZodObject<any>, z.ZodObject<any>, T> {
+    const prepended = (shape: z.ZodRawShape) => {
+      const { [name]: _, ...rest } = shape;
+      return z.object({ [name]: field, ...rest });
+    };
+
+    return new Signature({
+      instructions: this.instructions,
+      input:
+        inputOrOutput === "input" ? prepended(this.input.shape) : this.input,
+      output:
+        inputOrOutput === "output" ? prepended(this.output.shape) : this.output,
+      tools: this.tools,
+      prefixes: prefix ? { ...this.prefixes, [name]: prefix } : this.prefixes,
     });
   }
 
   /**
    * Returns a new Signature with updated instructions.
    */
-  withInstructions(instructions: string): Signature<I, O> {
+  withInstructions(instructions: string): Signature<I, O, T> {
     return new Signature({
       instructions,
       input: this.input,
       output: this.output,
+      tools: this.tools,
+      prefixes: this.prefixes,
+    });
+  }
+
+  /**
+   * Returns a new Signature with an updated prefix for the given field.
+   */
+  withPrefix(name: string, prefix: string): Signature<I, O, T> {
+    return new Signature({
+      instructions: this.instructions,
+      input: this.input,
+      output: this.output,
+      tools: this.tools,
+      prefixes: { ...this.prefixes, [name]: prefix },
     });
   }
 
@@ -145,12 +193,19 @@ export class Signature<
       prefixToName[prefix] = name;
     }
 
+    // States with updated prefixes (e.g. from COPRO) are matched by position, like DSPy does
+    const names = Object.keys({ ...this.input.shape, ...this.output.shape });
+    const positional = state.fields.length === names.length;
+
     const inputPatch: Record<string, z.ZodType> = {};
     const outputPatch: Record<string, z.ZodType> = {};
+    const prefixes = { ...this.prefixes };
 
-    for (const fieldState of state.fields) {
-      const name = prefixToName[fieldState.prefix];
+    for (const [i, fieldState] of (state.fields as any[]).entries()) {
+      const name =
+        prefixToName[fieldState.prefix] ?? (positional ? names[i] : undefined);
       if (!name) continue;
+      prefixes[name] = fieldState.prefix;
 
       const isInput = name in this.input.shape;
       const field = (
@@ -183,6 +238,7 @@ export class Signature<
       input: this.input.extend(inputPatch),
       output: this.output.extend(outputPatch),
       tools: this.tools,
+      prefixes,
     }) as any;
   }
 }
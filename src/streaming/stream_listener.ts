@@ -0,0 +1,107 @@
+/**
+ * A chunk of one output field, emitted by a StreamListener.
+ */
+export interface StreamResponse {
+  predictor: string;
+  field: string;
+  chunk: string;
+  isLastChunk: boolean;
+}
+
+// The start of a `[[ ## field ## ]]` marker that is still being generated,
+// e.g. "[", "[[ #" or "[[ ## compl" at the end of a partial ChatAdapter value.
+const PARTIAL_MARKER_PATTERN = /\[(?:\[(?: (?:#(?:#(?: [^\n]*)?)?)?)?)?$/;
+
+/**
+ * StreamListener watches a single string output field while a module is streamed,
+ * matching dspy.streaming.StreamListener.
+ *
+ * It follows the partial outputs parsed by the predictor's adapter: the sections after
+ * `[[ ## field ## ]]` markers for ChatAdapter and the object keys for JSONAdapter. The field
+ * ends once a later output field starts, or when the predictor finishes.
+ *
+ * @param field - The output field to listen to.
+ * @param predictor - The name of the predictor in `named_predictors()` ("self" for a streamed Predict).
+ * If omitted, the field is listened to on every predictor whose signature has it.
+ */
+export class StreamListener {
+  public field: string;
+  public predictor?: string;
+  private streams = new Map<string, { emitted: string; done: boolean }>();
+
+  constructor(field: string, predictor?: string) {
+    this.field = field;
+    this.predictor = predictor;
+  }
+
+  /**
+   * Receives a partial output of a predictor and returns the new chunk of the field, if any.
+   *
+   * @param predictor - The name of the predictor that produced the output.
+   * @param output - The partial output parsed so far.
+   * @param fields - The output field names of the predictor's signature, in order.
+   */
+  receive(
+    predictor: string,
+    output: Record<string, any>,
+    fields: string[]
+  ): StreamResponse | null {
+    if (!this.listens_to(predictor, fields)) return null;
+
+    const value = output[this.field];
+    if (typeof value !== "string") return null;
+
+    const stream = this.streams.get(predictor) ?? { emitted: "", done: false };
+    this.streams.set(predictor, stream);
+    if (stream.done) return null;
+
+    const later = fields.slice(fields.indexOf(this.field) + 1);
+    const ended = later.some((f) => f in output);
+
+    // Hold back a marker that is still being generated, so it never leaks into a chunk
+    const text = ended
+      ? value
+      : value.replace(PARTIAL_MARKER_PATTERN, "").trimEnd();
+
+    if (!text.startsWith(stream.emitted)) {
+      // The partial value was rewritten; wait for a later output to catch up
+      return null;
+    }
+
+    const chunk = text.slice(stream.emitted.length);
+    stream.emitted = text;
+    stream.done = ended;
+
+    if (!chunk && !ended) return null;
+    return { predictor, field: this.field, chunk, isLastChunk: ended };
+  }
+
+  /**
+   * Receives the final output of a predictor and returns the remaining chunk of the field.
+   * The listener is then reset, so it can listen to the next call of the predictor.
+   */
+  finish(
+    predictor: string,
+    output: Record<string, any>,
+    fields: string[]
+  ): StreamResponse | null {
+    if (!this.listens_to(predictor, fields)) return null;
+
+    const stream = this.streams.get(predictor);
+    this.streams.delete(predictor);
+
+    const value = output[this.field];
+    if (typeof value !== "string" || stream?.done) return null;
+
+    const emitted = stream?.emitted ?? "";
+    const chunk = value.startsWith(emitted) ? value.slice(emitted.length) : "";
+    return { predictor, field: this.field, chunk, isLastChunk: true };
+  }
+
+  private listens_to(predictor: string, fields: string[]): boolean {
+    if (this.predictor !== undefined && this.predictor !== predictor) {
+      return false;
+    }
+    return fields.includes(this.field);
+  }
+}
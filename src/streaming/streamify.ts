@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Module } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import type { Predict } from "../predict/predict";
+import type { StreamListener, StreamResponse } from "./stream_listener";
+
+/**
+ * Events yielded while streaming a module.
+ *
+ * - `partial`: a partial output of the predictor named `predictor` (its name in `named_predictors()`,
+ *   or "self" when the streamed module is the predictor itself).
+ * - `chunk`: a new chunk of an output field watched by a StreamListener.
+ * - `prediction`: the final Prediction of the module, yielded once as the last event.
+ */
+export type StreamEvent<P extends Prediction<any, any>> =
+  | {
+      type: "partial";
+      predictor: string;
+      output: Partial<Omit<P, "_result">>;
+    }
+  | ({ type: "chunk" } & StreamResponse)
+  | { type: "prediction"; prediction: P };
+
+/**
+ * The stream a module is being run in. Predictors that find a StreamContext in
+ * `streamStorage` call the LM with `Adapter.stream`, emit their partial outputs to it
+ * and report their final output once the LM call finishes.
+ */
+export interface StreamContext {
+  emit(predictor: Predict<any>, output: Record<string, any>): void;
+  finish(predictor: Predict<any>, output: Record<string, any>): void;
+}
+
+export const streamStorage = new AsyncLocalStorage<StreamContext>();
+
+/**
+ * Wraps a module so that running it yields the partial outputs of its predictors as they are
+ * generated, followed by the final Prediction, matching dspy.streamify.
+ *
+ * The module is run with `Module.run`, so its traces are recorded once the stream finishes.
+ *
+ * @param options.listeners - StreamListeners that additionally yield `chunk` events for
+ * single output fields of predictors nested anywhere in the module.
+ *
+ * @example
+ * ```ts
+ * const stream = streamify(program);
+ * for await (const event of stream({ question: "..." })) {
+ *   if (event.type === "partial") console.log(event.predictor, event.output);
+ *   else console.log(event.prediction);
+ * }
+ * ```
+ */
+export function streamify<M extends Module<any>>(
+  module: M,
+  { listeners = [] }: { listeners?: StreamListener[] } = {}
+): (
+  ...args: Parameters<M["run"]>
+) => AsyncGenerator<StreamEvent<Awaited<ReturnType<M["run"]>>>> {
+  return async function* (...args) {
+    const names = new Map<Module<any>, string>(
+      module.named_predictors().map(({ name, predictor }) => [predictor, name])
+    );
+
+    const queue: StreamEvent<Awaited<ReturnType<M["run"]>>>[] = [];
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const push_chunk = (response: StreamResponse | null) => {
+      if (response) {
+        queue.push({ type: "chunk", ...response });
+      }
+    };
+
+    const context: StreamContext = {
+      emit(predictor, output) {
+        const name = names.get(predictor) ?? "self";
+        const fields = Object.keys(predictor.signature.output_fields);
+        queue.push({ type: "partial", predictor: name, output: output as any });
+        for (const listener of listeners) {
+          push_chunk(listener.receive(name, output, fields));
+        }
+        notify();
+      },
+      finish(predictor, output) {
+        const name = names.get(predictor) ?? "self";
+        const fields = Object.keys(predictor.signature.output_fields);
+        for (const listener of listeners) {
+          push_chunk(listener.finish(name, output, fields));
+        }
+        notify();
+      },
+    };
+
+    let done = false;
+    let failed = false;
+    let error: unknown;
+    let prediction: Awaited<ReturnType<M["run"]>> | undefined;
+
+    streamStorage
+      .run(context, () =>
+        module.run(...(args as Parameters<Module<any>["run"]>))
+      )
+      .then(
+        (result) => {
+          prediction = result as Awaited<ReturnType<M["run"]>>;
+        },
+        (e) => {
+          failed = true;
+          error = e;
+        }
+      )
+      .finally(() => {
+        done = true;
+        notify();
+      });
+
+    while (true) {
+      while (queue.length > 0) {
+        yield queue.shift()!;
+      }
+      if (done) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+
+    if (failed) {
+      throw error;
+    }
+    yield { type: "prediction", prediction: prediction! };
+  };
+}
@@ -0,0 +1,244 @@
+import type { Module, DSTsTrace } from "../primitives/module";
+import { traceStorage } from "../primitives/module";
+import { Example } from "../primitives/example";
+import type { Predict } from "../predict/predict";
+import type { Metric } from "../evaluate/evaluate";
+import { Random } from "../utils/random";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import { LabeledFewShot } from "./vanilla";
+
+export interface BootstrapFewShotOptions {
+  /**
+   * Decides which teacher runs become demos. Without a metric, every run that succeeds is kept.
+   */
+  metric?: Metric | null;
+  /**
+   * When set, a run is kept if its metric score is at least the threshold.
+   */
+  metric_threshold?: number | null;
+  max_bootstrapped_demos?: number;
+  max_labeled_demos?: number;
+  /**
+   * The number of attempts at bootstrapping each example. Retries raise the teacher's temperature.
+   */
+  max_rounds?: number;
+  /**
+   * The number of failed teacher runs after which compiling fails.
+   */
+  max_errors?: number;
+}
+
+/**
+ * BootstrapFewShot runs a teacher program over the trainset and turns the traces of the runs that
+ * pass the metric into demos for the student, matching dspy.BootstrapFewShot.
+ *
+ * Each predictor of the student gets up to `max_bootstrapped_demos` bootstrapped demos (the traced
+ * inputs and outputs of its teacher counterpart), topped up to `max_labeled_demos` with labeled
+ * examples that were not bootstrapped.
+ *
+ * The teacher defaults to a copy of the student. Unless it was compiled by an optimizer, it is
+ * first given labeled demos with LabeledFewShot.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new BootstrapFewShot({ metric: answer_exact_match });
+ * const compiled = await optimizer.compile(program, { trainset });
+ * ```
+ */
+export class BootstrapFewShot extends Teleprompter {
+  public metric: Metric | null;
+  public metric_threshold: number | null;
+  public max_bootstrapped_demos: number;
+  public max_labeled_demos: number;
+  public max_rounds: number;
+  public max_errors: number;
+
+  constructor({
+    metric = null,
+    metric_threshold = null,
+    max_bootstrapped_demos = 4,
+    max_labeled_demos = 16,
+    max_rounds = 1,
+    max_errors = 10,
+  }: BootstrapFewShotOptions = {}) {
+    super();
+    this.metric = metric;
+    this.metric_threshold = metric_threshold;
+    this.max_bootstrapped_demos = max_bootstrapped_demos;
+    this.max_labeled_demos = max_labeled_demos;
+    this.max_rounds = max_rounds;
+    this.max_errors = max_errors;
+  }
+
+  async compile<M extends Module<any>>(
+    student: M,
+    { trainset, teacher = null }: CompileOptions
+  ): Promise<M> {
+    const compiled = student.reset_copy();
+    let teacher_copy = teacher ? teacher.deepcopy() : student.deepcopy();
+
+    if (this.max_labeled_demos && !teacher_copy._compiled) {
+      teacher_copy = await new LabeledFewShot(this.max_labeled_demos).compile(
+        teacher_copy.reset_copy(),
+        { trainset }
+      );
+    }
+
+    const teacher_predictors = this.map_predictors(compiled, teacher_copy);
+
+    // Bootstrap demos from the teacher's successful runs
+    const name_to_demos = new Map<string, Example<any>[]>(
+      [...teacher_predictors.values()].map((name) => [name, []])
+    );
+    const bootstrapped = new Set<number>();
+    let error_count = 0;
+
+    for (let i = 0; i < trainset.length; i++) {
+      if (bootstrapped.size >= this.max_bootstrapped_demos) break;
+      const example = trainset[i]!;
+
+      for (let round = 0; round < this.max_rounds; round++) {
+        try {
+          const demos = await this.bootstrap_one_example(
+            teacher_copy,
+            teacher_predictors,
+            example,
+            round
+          );
+          if (demos) {
+            for (const [name, demo] of demos) {
+              name_to_demos.get(name)!.push(demo);
+            }
+            bootstrapped.add(i);
+            break;
+          }
+        } catch (e) {
+          error_count++;
+          if (error_count >= this.max_errors) {
+            throw e;
+          }
+        }
+      }
+    }
+
+    // Top up the bootstrapped demos with labeled examples that were not bootstrapped
+    const rng = new Random(0);
+    const validation = rng.shuffle(
+      trainset.filter((_, i) => !bootstrapped.has(i))
+    );
+
+    for (const { name, predictor } of compiled.named_predictors()) {
+      const augmented_demos = name_to_demos
+        .get(name)!
+        .slice(0, this.max_bootstrapped_demos);
+      const sample_size = Math.max(
+        0,
+        Math.min(
+          this.max_labeled_demos - augmented_demos.length,
+          validation.length
+        )
+      );
+      predictor.demos = [
+        ...augmented_demos,
+        ...rng.sample(validation, sample_size),
+      ];
+    }
+
+    compiled._compiled = true;
+    return compiled;
+  }
+
+  /**
+   * Maps each predictor of the teacher to the name of the student predictor it trains,
+   * checking that both programs have the same structure.
+   */
+  private map_predictors(
+    student: Module<any>,
+    teacher: Module<any>
+  ): Map<Predict<any>, string> {
+    const student_predictors = student.named_predictors();
+    const teacher_predictors = teacher.named_predictors();
+
+    if (student_predictors.length !== teacher_predictors.length) {
+      throw new Error(
+        `Student and teacher must have the same number of predictors, got ${student_predictors.length} and ${teacher_predictors.length}`
+      );
+    }
+
+    const result = new Map<Predict<any>, string>();
+    for (let i = 0; i < student_predictors.length; i++) {
+      const { name } = student_predictors[i]!;
+      const { name: teacher_name, predictor } = teacher_predictors[i]!;
+      if (name !== teacher_name) {
+        throw new Error(
+          `Student and teacher must have the same predictors, got "${name}" and "${teacher_name}"`
+        );
+      }
+      result.set(predictor, name);
+    }
+    return result;
+  }
+
+  /**
+   * Runs the teacher on an example and returns the demos of its trace, or null if the run
+   * does not pass the metric.
+   */
+  private async bootstrap_one_example(
+    teacher: Module<any>,
+    teacher_predictors: Map<Predict<any>, string>,
+    example: Example<any>,
+    round: number
+  ): Promise<[string, Example<any>][] | null> {
+    const saved = [...teacher_predictors.keys()].map((predictor) => ({
+      predictor,
+      demos: predictor.demos,
+      config: predictor.config,
+    }));
+
+    const trace: DSTsTrace = [];
+    try {
+      for (const { predictor } of saved) {
+        // Don't let the teacher see the answer it's being asked for
+        predictor.demos = predictor.demos.filter((demo) => demo !== example);
+        if (round > 0) {
+          predictor.config = {
+            ...predictor.config,
+            temperature: 0.7 + 0.001 * round,
+          };
+        }
+      }
+
+      const prediction = await traceStorage.run(trace, () =>
+        teacher.run(example.inputs())
+      );
+
+      if (this.metric) {
+        const score = await this.metric(example, prediction, trace);
+        const passed =
+          this.metric_threshold !== null
+            ? Number(score) >= this.metric_threshold
+            : Boolean(score);
+        if (!passed) return null;
+      }
+    } finally {
+      for (const { predictor, demos, config } of saved) {
+        predictor.demos = demos;
+        predictor.config = config;
+      }
+    }
+
+    const demos: [string, Example<any>][] = [];
+    for (const { instance, example: inputs, prediction } of trace) {
+      const name = teacher_predictors.get(instance as Predict<any>);
+      if (name === undefined) continue;
+
+      const outputs = Object.fromEntries(
+        Object.keys((instance as Predict<any>).signature.output_fields).map(
+          (key) => [key, prediction[key]]
+        )
+      );
+      demos.push([name, new Example({ ...inputs, ...outputs })]);
+    }
+    return demos;
+  }
+}
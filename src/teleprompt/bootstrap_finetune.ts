@@ -0,0 +1,242 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Module } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import type { Predict } from "../predict/predict";
+import type { LM } from "../clients/lm";
+import type { Metric } from "../evaluate/evaluate";
+import type { FinetuneProvider } from "../clients/provider";
+import {
+  to_openai_tools,
+  write_lines,
+  type FinetuneRecord,
+} from "../clients/utils_finetune";
+import { ChatAdapter } from "../adapters/chat_adapter";
+import { settings } from "../settings";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import { bootstrap_trace_data } from "./bootstrap_trace";
+
+export interface BootstrapFinetuneOptions {
+  /**
+   * Fine-tunes the LMs on the written training data.
+   */
+  provider: FinetuneProvider;
+  /**
+   * Decides which teacher runs become training data. Without a metric, every run that succeeds
+   * is kept.
+   */
+  metric?: Metric | null;
+  /**
+   * Fine-tunes one LM per distinct LM of the predictors on the data of all of its predictors,
+   * instead of one LM per predictor.
+   */
+  multitask?: boolean;
+  /**
+   * Passed to the provider with each job.
+   */
+  train_kwargs?: Record<string, any>;
+  /**
+   * Formats the training data. Defaults to the configured adapter, or a ChatAdapter.
+   */
+  adapter?: ChatAdapter | null;
+  /**
+   * Leaves the demos out of the training data and removes them from the compiled predictors,
+   * since the fine-tuned LM is meant to do without them.
+   */
+  exclude_demos?: boolean;
+  num_threads?: number;
+  /**
+   * Where the JSONL files are written. Defaults to a new temporary directory.
+   */
+  data_dir?: string | null;
+}
+
+/**
+ * BootstrapFinetune fine-tunes the LMs of a program on the traces of a teacher program,
+ * matching dspy.BootstrapFinetune.
+ *
+ * The teacher (defaulting to the student) is run over the trainset, and the calls of each
+ * predictor in the runs that pass the metric are written to `<data_dir>/<predictor name>.jsonl`
+ * in the OpenAI chat fine-tuning format, including tool calls and multimodal inputs. Each file
+ * is handed to the provider, and the predictors of the compiled program use the LMs it returns.
+ *
+ * Unlike DSPy, `multitask` is off by default, so each predictor gets its own training file and
+ * LM. With `multitask`, predictors sharing an LM share a file, `multitask_<i>.jsonl`.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new BootstrapFinetune({
+ *   metric: answer_exact_match,
+ *   provider: new LocalFinetuneProvider(),
+ *   data_dir: "finetune_data",
+ * });
+ * const compiled = await optimizer.compile(student, { trainset, teacher });
+ * ```
+ */
+export class BootstrapFinetune extends Teleprompter {
+  public provider: FinetuneProvider;
+  public metric: Metric | null;
+  public multitask: boolean;
+  public train_kwargs: Record<string, any>;
+  public adapter: ChatAdapter | null;
+  public exclude_demos: boolean;
+  public num_threads: number;
+  public data_dir: string | null;
+
+  constructor({
+    provider,
+    metric = null,
+    multitask = false,
+    train_kwargs = {},
+    adapter = null,
+    exclude_demos = false,
+    num_threads = 1,
+    data_dir = null,
+  }: BootstrapFinetuneOptions) {
+    super();
+    this.provider = provider;
+    this.metric = metric;
+    this.multitask = multitask;
+    this.train_kwargs = train_kwargs;
+    this.adapter = adapter;
+    this.exclude_demos = exclude_demos;
+    this.num_threads = num_threads;
+    this.data_dir = data_dir;
+  }
+
+  async compile<M extends Module<any>>(
+    student: M,
+    { trainset, teacher = null }: CompileOptions
+  ): Promise<M> {
+    if (student._compiled) {
+      throw new Error("The student program should not be compiled");
+    }
+    const compiled = student.deepcopy();
+    const teacher_copy = teacher ? teacher.deepcopy() : compiled;
+
+    const student_predictors = compiled.named_predictors();
+    const teacher_predictors = teacher_copy.named_predictors();
+    if (student_predictors.length !== teacher_predictors.length) {
+      throw new Error(
+        `Student and teacher must have the same number of predictors, got ${student_predictors.length} and ${teacher_predictors.length}`
+      );
+    }
+    const adapter = this.adapter ?? settings.adapter ?? new ChatAdapter();
+    if (!(adapter instanceof ChatAdapter)) {
+      throw new Error(
+        `Cannot format fine-tuning data with ${adapter.constructor.name}`
+      );
+    }
+
+    // Group the predictors by training file
+    const jobs = new Map<
+      string | LM,
+      { lm: LM; file_name: string; predictors: number[] }
+    >();
+    student_predictors.forEach(({ name, predictor }, i) => {
+      const lm = predictor.lm ?? settings.lm;
+      if (!lm) {
+        throw new Error(`Predictor ${name} does not have an LM assigned`);
+      }
+      const key = this.multitask ? lm : name;
+      if (!jobs.has(key)) {
+        const file_name = this.multitask ? `multitask_${jobs.size}` : name;
+        jobs.set(key, { lm, file_name, predictors: [] });
+      }
+      jobs.get(key)!.predictors.push(i);
+    });
+
+    const trace_data = await bootstrap_trace_data({
+      program: teacher_copy,
+      dataset: trainset,
+      metric: this.metric,
+      num_threads: this.num_threads,
+    });
+    const kept = this.metric
+      ? trace_data.filter(({ score }) => Boolean(score))
+      : trace_data;
+
+    const teacher_indices = new Map<Module<any>, number>(
+      teacher_predictors.map(({ predictor }, i) => [predictor, i])
+    );
+    const records: FinetuneRecord[][] = teacher_predictors.map(() => []);
+    for (const { trace } of kept) {
+      for (const { instance, example: inputs, prediction } of trace) {
+        const i = teacher_indices.get(instance);
+        if (i === undefined) continue;
+        records[i]!.push(
+          this.format_call(
+            adapter,
+            teacher_predictors[i]!.predictor,
+            inputs,
+            prediction
+          )
+        );
+      }
+    }
+    for (const [i, { predictor }] of teacher_predictors.entries()) {
+      if (!predictor.signature.tools) continue;
+      const tools = await to_openai_tools(predictor.signature.tools);
+      for (const record of records[i]!) record.tools = tools;
+    }
+
+    const data_dir =
+      this.data_dir ?? (await mkdtemp(join(tmpdir(), "finetune-")));
+    const finetuned = await Promise.all(
+      [...jobs.values()].map(async ({ lm, file_name, predictors }) => {
+        const data = predictors.flatMap((i) => records[i]!);
+        if (data.length === 0) {
+          throw new Error(
+            `No training data for ${predictors
+              .map((i) => student_predictors[i]!.name)
+              .join(", ")}: no teacher run passed the metric`
+          );
+        }
+        const train_data_path = join(data_dir, `${file_name}.jsonl`);
+        await write_lines(train_data_path, data);
+        const finetuned_lm = await this.provider.finetune({
+          lm,
+          train_data_path,
+          train_kwargs: this.train_kwargs,
+        });
+        return { finetuned_lm, predictors };
+      })
+    );
+
+    for (const { finetuned_lm, predictors } of finetuned) {
+      for (const i of predictors) {
+        const { predictor } = student_predictors[i]!;
+        predictor.setLM(finetuned_lm);
+        if (this.exclude_demos) predictor.demos = [];
+      }
+    }
+    compiled._compiled = true;
+    return compiled;
+  }
+
+  /**
+   * Formats a traced call of a predictor, with the tool calls it made before answering.
+   */
+  private format_call(
+    adapter: ChatAdapter,
+    predictor: Predict<any>,
+    inputs: Record<string, any>,
+    prediction: Prediction<any, any>
+  ): FinetuneRecord {
+    const outputs = Object.fromEntries(
+      Object.keys(predictor.signature.output_fields).map((key) => [
+        key,
+        prediction[key],
+      ])
+    );
+    const response_messages = prediction._result?.response?.messages;
+    return adapter.format_finetune_data(
+      predictor.signature,
+      this.exclude_demos ? [] : predictor.demos,
+      { ...inputs },
+      outputs,
+      Array.isArray(response_messages) ? response_messages : []
+    );
+  }
+}
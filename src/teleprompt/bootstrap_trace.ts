@@ -0,0 +1,54 @@
+import {
+  traceStorage,
+  type DSTsTrace,
+  type Module,
+} from "../primitives/module";
+import type { Example } from "../primitives/example";
+import type { Prediction } from "../primitives/prediction";
+import type { Metric } from "../evaluate/evaluate";
+import { ParallelExecutor } from "../utils/parallel";
+
+/**
+ * A traced run of a program on an example of the dataset.
+ */
+export interface TraceData {
+  example_ind: number;
+  example: Example<any>;
+  prediction: Prediction<any, any>;
+  trace: DSTsTrace;
+  /**
+   * The metric score, or null without a metric.
+   */
+  score: number | boolean | null;
+}
+
+/**
+ * Runs the program over the dataset and returns the trace of each run, scored by the metric.
+ * Runs that fail are left out, and once `max_errors` have failed the function throws.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export async function bootstrap_trace_data({
+  program,
+  dataset,
+  metric = null,
+  num_threads = 1,
+  max_errors = 10,
+}: {
+  program: Module<any>;
+  dataset: Example<any>[];
+  metric?: Metric | null;
+  num_threads?: number;
+  max_errors?: number;
+}): Promise<TraceData[]> {
+  const executor = new ParallelExecutor({ num_threads, max_errors });
+  const results = await executor.execute(async (example, example_ind) => {
+    const trace: DSTsTrace = [];
+    const prediction = await traceStorage.run(trace, () =>
+      program.run(example.inputs())
+    );
+    const score = metric ? await metric(example, prediction, trace) : null;
+    return { example_ind, example, prediction, trace, score };
+  }, dataset);
+  return results.filter((result) => result !== null);
+}
@@ -0,0 +1,339 @@
+import { z } from "zod";
+import type { Module } from "../primitives/module";
+import type { LM } from "../clients/lm";
+import { Signature } from "../signatures/signature";
+import { Predict } from "../predict/predict";
+import { Evaluate, type Metric } from "../evaluate/evaluate";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+
+const proposed_instruction = z
+  .string()
+  .describe("The improved instructions for the language model");
+const proposed_prefix_for_output_field = z
+  .string()
+  .describe(
+    "The string at the end of the prompt, which will help the model start solving the task"
+  );
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const BasicGenerateInstruction = new Signature({
+  instructions:
+    "You are an instruction optimizer for large language models. I will give you a ``signature`` of fields (inputs and outputs) in English. Your task is to propose an instruction that will lead a good language model to perform the task well. Don't be afraid to be creative.",
+  input: z.object({
+    basic_instruction: z
+      .string()
+      .describe("The initial instructions before optimization"),
+  }),
+  output: z.object({ proposed_instruction, proposed_prefix_for_output_field }),
+});
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const GenerateInstructionGivenAttempts = new Signature({
+  instructions:
+    "You are an instruction optimizer for large language models. I will give some task instructions I've tried, along with their corresponding validation scores. The instructions are arranged in increasing order based on their scores, where higher scores indicate better quality.\n\n" +
+    "Your task is to propose a new instruction that will lead a good language model to perform the task even better. Don't be afraid to be creative.",
+  input: z.object({ attempted_instructions: z.array(z.string()) }),
+  output: z.object({ proposed_instruction, proposed_prefix_for_output_field }),
+});
+
+/**
+ * An instruction and output prefix evaluated by COPRO, with the program using them.
+ */
+export interface COPROCandidate<M extends Module<any> = Module<any>> {
+  score: number;
+  program: M;
+  instruction: string;
+  prefix: string;
+  /**
+   * The iteration in which the candidate was evaluated.
+   */
+  depth: number;
+}
+
+/**
+ * Evaluate options used when scoring candidates.
+ */
+export type COPROEvalKwargs = Omit<
+  ConstructorParameters<typeof Evaluate>[0],
+  "devset" | "metric"
+>;
+
+/**
+ * COPRO optimizes the instructions and the prefix of the last output field of every predictor,
+ * matching dspy.COPRO.
+ *
+ * The prompt model first proposes `breadth - 1` variations of each predictor's instructions.
+ * Then, for `depth` iterations, every candidate is scored on the trainset, the predictor keeps its
+ * best candidate, and the prompt model proposes `breadth` new candidates given the previous
+ * attempts and their scores.
+ *
+ * The instructions and prefixes are stored in the signatures, so `save()` persists them in
+ * DSPy's layout.
+ *
+ * @param options.breadth - The number of candidates proposed at each iteration. Must be greater than 1.
+ * @param options.depth - The number of iterations.
+ * @param options.init_temperature - The temperature of the prompt model.
+ */
+export class COPRO extends Teleprompter {
+  public metric: Metric;
+  public prompt_model: LM | null;
+  public breadth: number;
+  public depth: number;
+  public init_temperature: number;
+
+  constructor({
+    metric,
+    prompt_model = null,
+    breadth = 10,
+    depth = 3,
+    init_temperature = 1.4,
+  }: {
+    metric: Metric;
+    prompt_model?: LM | null;
+    breadth?: number;
+    depth?: number;
+    init_temperature?: number;
+  }) {
+    super();
+    if (breadth <= 1) {
+      throw new Error("Breadth must be greater than 1");
+    }
+    this.metric = metric;
+    this.prompt_model = prompt_model;
+    this.breadth = breadth;
+    this.depth = depth;
+    this.init_temperature = init_temperature;
+  }
+
+  /**
+   * @param options.eval_kwargs - Options of the Evaluate scoring the candidates, e.g. `num_threads`.
+   */
+  async compile<M extends Module<any>>(
+    student: M,
+    {
+      trainset,
+      eval_kwargs = {},
+    }: CompileOptions & { eval_kwargs?: COPROEvalKwargs }
+  ): Promise<
+    M & { candidate_programs: COPROCandidate<M>[]; total_calls: number }
+  > {
+    const module = student.deepcopy();
+    const evaluate = new Evaluate({
+      ...eval_kwargs,
+      devset: trainset,
+      metric: this.metric,
+    });
+    let total_calls = 0;
+
+    const predictors = module.named_predictors().map((p) => p.predictor);
+    const num_predictors = predictors.length;
+
+    // Seed the candidates of each predictor with variations of its instructions, and the instructions themselves
+    const all_candidates: Proposal[][] = [];
+    for (const predictor of predictors) {
+      const signature = predictor.signature;
+      const proposals = await this.propose(
+        BasicGenerateInstruction,
+        { basic_instruction: signature.instructions ?? "" },
+        this.breadth - 1
+      );
+      proposals.push({
+        instruction: signature.instructions ?? "",
+        prefix: signature.prefixes[last_field(signature)] ?? "",
+      });
+      all_candidates.push(proposals);
+    }
+
+    let latest_candidates = all_candidates.map((c) => [...c]);
+    const evaluated_candidates: Map<string, COPROCandidate<M>>[] =
+      predictors.map(() => new Map());
+
+    const module_clone = module.deepcopy();
+    const clone_predictors = module_clone
+      .named_predictors()
+      .map((p) => p.predictor);
+
+    for (let d = 0; d < this.depth; d++) {
+      for (let p_i = 0; p_i < num_predictors; p_i++) {
+        const p_new = clone_predictors[p_i]!;
+        // With several predictors, every candidate is rescored along with the other predictors' new best
+        const candidates =
+          num_predictors > 1 ? all_candidates[p_i]! : latest_candidates[p_i]!;
+
+        for (const candidate of candidates) {
+          const instruction = strip_quotes(candidate.instruction);
+          const prefix = strip_quotes(candidate.prefix);
+          p_new.signature = with_instruction_and_prefix(
+            p_new.signature,
+            instruction,
+            prefix
+          );
+
+          const { score } = await evaluate.run(module_clone);
+          total_calls++;
+
+          const key = JSON.stringify([instruction, prefix]);
+          const previous = evaluated_candidates[p_i]!.get(key);
+          if (!previous || previous.score < score) {
+            evaluated_candidates[p_i]!.set(key, {
+              score,
+              program: module_clone.deepcopy(),
+              instruction,
+              prefix,
+              depth: d,
+            });
+          }
+        }
+
+        // Keep the best candidate, so the next predictor is scored along with it
+        const best = max_by_score([...evaluated_candidates[p_i]!.values()]);
+        p_new.signature = with_instruction_and_prefix(
+          p_new.signature,
+          best.instruction,
+          best.prefix
+        );
+      }
+
+      if (d === this.depth - 1) break;
+
+      // Propose new candidates given the best attempts so far, in increasing order of score
+      const new_candidates: Proposal[][] = [];
+      for (let p_i = 0; p_i < num_predictors; p_i++) {
+        const best_predictors = [...evaluated_candidates[p_i]!.values()].sort(
+          (a, b) => b.score - a.score
+        );
+        const shortest_len = Math.min(best_predictors.length, this.breadth);
+
+        const attempts: string[] = [];
+        for (let i = shortest_len - 1; i >= 0; i--) {
+          const { instruction, prefix, score } = best_predictors[i]!;
+          attempts.push(`Instruction #${shortest_len - i}: ${instruction}`);
+          attempts.push(`Prefix #${shortest_len - i}: ${prefix}`);
+          attempts.push(`Resulting Score #${shortest_len - i}: ${score}`);
+        }
+
+        const proposals = await this.propose(
+          GenerateInstructionGivenAttempts,
+          { attempted_instructions: attempts },
+          this.breadth
+        );
+        new_candidates.push(proposals);
+        all_candidates[p_i]!.push(...proposals);
+      }
+      latest_candidates = new_candidates;
+    }
+
+    const candidates = drop_duplicates(
+      evaluated_candidates
+        .flatMap((evaluated) => [...evaluated.values()])
+        .sort((a, b) => b.score - a.score)
+    );
+    if (candidates.length === 0) {
+      throw new Error("COPRO requires a program with at least one predictor");
+    }
+
+    const best_program = candidates[0]!.program;
+    best_program._compiled = true;
+    return Object.assign(best_program, {
+      candidate_programs: candidates,
+      total_calls,
+    });
+  }
+
+  /**
+   * Has the prompt model propose `n` instructions and prefixes.
+   */
+  private async propose(
+    signature:
+      | typeof BasicGenerateInstruction
+      | typeof GenerateInstructionGivenAttempts,
+    input: Record<string, any>,
+    n: number
+  ): Promise<Proposal[]> {
+    const predictor = new Predict(signature);
+    if (this.prompt_model) predictor.setLM(this.prompt_model);
+
+    const proposals: Proposal[] = [];
+    for (let i = 0; i < n; i++) {
+      const prediction = await predictor.run(input as any, {
+        temperature: this.init_temperature,
+      });
+      proposals.push({
+        instruction: prediction.proposed_instruction,
+        prefix: prediction.proposed_prefix_for_output_field,
+      });
+    }
+    return proposals;
+  }
+}
+
+interface Proposal {
+  instruction: string;
+  prefix: string;
+}
+
+function last_field(signature: Signature): string {
+  return Object.keys(signature.output_fields).at(-1)!;
+}
+
+function with_instruction_and_prefix<S extends Signature>(
+  signature: S,
+  instruction: string,
+  prefix: string
+): Signature {
+  return signature
+    .withInstructions(instruction)
+    .withPrefix(last_field(signature), prefix);
+}
+
+function strip_quotes(text: string): string {
+  return text.replace(/^"+|"+$/g, "").trim();
+}
+
+function max_by_score<C extends { score: number }>(candidates: C[]): C {
+  return candidates.reduce((best, c) => (c.score > best.score ? c : best));
+}
+
+/**
+ * Drops candidates whose programs have the same instructions and prefixes as a candidate with
+ * the same score.
+ */
+function drop_duplicates<C extends COPROCandidate<any>>(candidates: C[]): C[] {
+  const final_candidates: C[] = [];
+  let last_batch: C[] = [];
+  let last_batch_score = -1;
+
+  for (const c of candidates) {
+    let repeat = false;
+    if (c.score === last_batch_score) {
+      repeat = last_batch.some((c2) => candidates_equal(c, c2));
+      if (!repeat) last_batch.push(c);
+    } else {
+      last_batch = [c];
+      last_batch_score = c.score;
+    }
+    if (!repeat) final_candidates.push(c);
+  }
+  return final_candidates;
+}
+
+function candidates_equal(
+  c1: COPROCandidate,
+  c2: COPROCandidate
+): boolean {
+  const p1 = c1.program.named_predictors();
+  const p2 = c2.program.named_predictors();
+  return p1.every(({ predictor }, i) => {
+    const other = p2[i]!.predictor.signature;
+    const signature = predictor.signature;
+    return (
+      signature.instructions === other.instructions &&
+      signature.prefixes[last_field(signature)] ===
+        other.prefixes[last_field(other)]
+    );
+  });
+}
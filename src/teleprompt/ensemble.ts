@@ -0,0 +1,133 @@
+import { Module } from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import { majority } from "../predict/aggregation";
+import { Random } from "../utils/random";
+
+/**
+ * Combines the predictions of the programs of an ensemble into one.
+ */
+export type ReduceFn = (
+  predictions: Prediction<any, any>[]
+) => Prediction<any, any> | Promise<Prediction<any, any>>;
+
+/**
+ * A module running several programs on the same inputs and reducing their predictions.
+ * The predictors of the programs are saved and loaded as `programs[0].<name>`,
+ * `programs[1].<name>`, ..., compiled programs included.
+ */
+export class EnsembledProgram<
+  M extends Module<any> = Module<any>
+> extends Module {
+  public programs: M[];
+  public reduce_fn: ReduceFn;
+  public size: number | null;
+  private rng: Random;
+
+  constructor(
+    programs: M[],
+    reduce_fn: ReduceFn,
+    size: number | null,
+    rng: Random
+  ) {
+    super();
+    this.programs = programs;
+    this.reduce_fn = reduce_fn;
+    this.size = size;
+    this.rng = rng;
+  }
+
+  async forward(input: any, ...args: any[]): Promise<Prediction<any, any>> {
+    const programs = this.size
+      ? this.rng.sample(this.programs, this.size)
+      : this.programs;
+    const predictions = await Promise.all(
+      programs.map((program) => program.run(input, ...args))
+    );
+    return await this.reduce_fn(predictions);
+  }
+
+  override dump_state() {
+    const state: Record<string, any> = {};
+    for (const { name, parameter } of this.program_parameters()) {
+      state[name] = parameter.dump_state();
+    }
+    return state;
+  }
+
+  override load_state(state: Record<string, any>): void {
+    for (const { name, parameter } of this.program_parameters()) {
+      parameter.load_state(state[name]);
+    }
+  }
+
+  /**
+   * The parameters of every program. Unlike `named_parameters()`, which leaves compiled
+   * submodules frozen, it includes the programs returned by optimizers.
+   */
+  private program_parameters() {
+    return this.programs.flatMap((program, i) =>
+      program.named_parameters().map(({ name, parameter }) => ({
+        name: name === "self" ? `programs[${i}]` : `programs[${i}].${name}`,
+        parameter,
+      }))
+    );
+  }
+}
+
+/**
+ * Ensemble combines programs (e.g. variants compiled by other optimizers) into one program,
+ * matching dspy.Ensemble.
+ *
+ * Each call of the ensembled program runs every program, or `size` of them picked at random,
+ * and reduces their predictions with `reduce_fn`. Unlike DSPy, which returns the list of
+ * predictions without a `reduce_fn`, it defaults to a `majority` vote on the last output field.
+ * Since `compile` takes the programs rather than a student and a trainset, it doesn't extend
+ * Teleprompter.
+ *
+ * @example
+ * ```ts
+ * const ensemble = new Ensemble({ reduce_fn: majority, size: 3 });
+ * const program = await ensemble.compile(random_search.candidate_programs.map((c) => c.program));
+ * ```
+ */
+export class Ensemble {
+  public reduce_fn: ReduceFn;
+  public size: number | null;
+  public seed: number;
+
+  constructor({
+    reduce_fn = majority,
+    size = null,
+    seed = 0,
+  }: {
+    reduce_fn?: ReduceFn;
+    /**
+     * The number of programs run per call. Defaults to all of them.
+     */
+    size?: number | null;
+    /**
+     * Seeds the choice of the programs run per call.
+     */
+    seed?: number;
+  } = {}) {
+    this.reduce_fn = reduce_fn;
+    this.size = size;
+    this.seed = seed;
+  }
+
+  async compile<M extends Module<any>>(
+    programs: M[]
+  ): Promise<EnsembledProgram<M>> {
+    if (this.size !== null && this.size > programs.length) {
+      throw new Error(
+        `Cannot run ${this.size} programs of an ensemble of ${programs.length}`
+      );
+    }
+    return new EnsembledProgram(
+      programs,
+      this.reduce_fn,
+      this.size,
+      new Random(this.seed)
+    );
+  }
+}
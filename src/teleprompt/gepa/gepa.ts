@@ -0,0 +1,663 @@
+import { join } from "node:path";
+import {
+  traceStorage,
+  type DSTsTrace,
+  type Module,
+} from "../../primitives/module";
+import type { Prediction } from "../../primitives/prediction";
+import type { Example } from "../../primitives/example";
+import type { Predict } from "../../predict/predict";
+import type { LM } from "../../clients/lm";
+import { ParallelExecutor } from "../../utils/parallel";
+import { Random } from "../../utils/random";
+import { Teleprompter, type CompileOptions } from "../teleprompt";
+import {
+  propose_new_instruction,
+  type ReflectiveExample,
+} from "./instruction_proposal";
+
+/**
+ * A score with textual feedback on how the prediction could be better.
+ */
+export interface ScoreWithFeedback {
+  score: number;
+  feedback: string;
+}
+
+/**
+ * A metric returning a score, optionally with feedback.
+ *
+ * GEPA calls the metric once per run, and reflects on the feedback of that call for each
+ * predictor. Without feedback, GEPA uses "This trajectory got a score of {score}.".
+ */
+export type GEPAFeedbackMetric = (
+  gold: Example<any>,
+  pred: Prediction<any, any>,
+  trace?: DSTsTrace
+) =>
+  | number
+  | boolean
+  | ScoreWithFeedback
+  | Promise<number | boolean | ScoreWithFeedback>;
+
+/**
+ * The instructions of each predictor, by name.
+ */
+export type GEPACandidate = Record<string, string>;
+
+/**
+ * The search state of GEPA. It's written to `log_dir` after every iteration so a run can resume.
+ */
+export interface GEPAState {
+  candidates: GEPACandidate[];
+  /**
+   * The parents of each candidate, i.e. the candidate it was derived from (none for the student).
+   */
+  parents: (number | null)[][];
+  /**
+   * The score of each candidate on each validation example.
+   */
+  val_subscores: number[][];
+  /**
+   * The candidates with the best score on each validation example.
+   */
+  per_val_instance_best_candidates: number[][];
+  /**
+   * The number of metric calls made when each candidate was found.
+   */
+  discovery_eval_counts: number[];
+  /**
+   * The index of the predictor each candidate updates next.
+   */
+  next_predictor: number[];
+  /**
+   * The size of the valset and the names of the predictors, checked when resuming.
+   */
+  valset_size: number;
+  predictor_names: string[];
+  total_metric_calls: number;
+  num_full_val_evals: number;
+  iteration: number;
+}
+
+/**
+ * The candidate tree and scores of a GEPA run, attached as `detailed_results` with `track_stats`.
+ */
+export interface GEPAResult<M extends Module<any> = Module<any>> {
+  candidates: M[];
+  parents: (number | null)[][];
+  val_aggregate_scores: number[];
+  val_subscores: number[][];
+  per_val_instance_best_candidates: number[][];
+  discovery_eval_counts: number[];
+  best_idx: number;
+  best_candidate: GEPACandidate;
+  total_metric_calls: number;
+  num_full_val_evals: number;
+  log_dir: string | null;
+  seed: number;
+}
+
+export interface GEPAOptions {
+  metric: GEPAFeedbackMetric;
+  /**
+   * The LM proposing new instructions. A strong model works best.
+   */
+  reflection_lm: LM;
+  /**
+   * Sets the budget from a number of candidates, like MIPROv2's run modes. Exactly one of
+   * `auto`, `max_full_evals` and `max_metric_calls` must be set.
+   */
+  auto?: "light" | "medium" | "heavy" | null;
+  /**
+   * The budget as a number of evaluations of the train and validation sets.
+   */
+  max_full_evals?: number | null;
+  max_metric_calls?: number | null;
+  /**
+   * The number of training examples each reflection is based on.
+   */
+  reflection_minibatch_size?: number;
+  /**
+   * `pareto` samples candidates on the Pareto frontier of the validation scores, weighted by
+   * the number of examples they are best on; `current_best` always evolves the best candidate.
+   */
+  candidate_selection_strategy?: "pareto" | "current_best";
+  /**
+   * Skips reflecting on minibatches where every example has a perfect score.
+   */
+  skip_perfect_score?: boolean;
+  num_threads?: number;
+  failure_score?: number;
+  perfect_score?: number;
+  /**
+   * The directory the search state is saved in. A run with the same directory resumes from it.
+   */
+  log_dir?: string | null;
+  /**
+   * Attaches the candidate tree and scores to the returned program as `detailed_results`.
+   */
+  track_stats?: boolean;
+  seed?: number;
+}
+
+const AUTO_RUN_SETTINGS = { light: 6, medium: 12, heavy: 18 };
+
+const STATE_FILE = "gepa_state.json";
+
+/**
+ * GEPA (Genetic-Pareto) evolves the instructions of a program by reflecting on its runs,
+ * matching dspy.GEPA.
+ *
+ * Each iteration picks a candidate from the Pareto frontier of validation scores, runs it on a
+ * minibatch of the trainset, and has the reflection LM propose a new instruction for one
+ * predictor (in turn) from the inputs, outputs and metric feedback of that predictor. If the new
+ * candidate does better on the minibatch, it's scored on the valset and joins the candidates.
+ * The search stops once the metric call budget is spent, and returns the candidate with the best
+ * average validation score.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new GEPA({
+ *   metric: (gold, pred) => ({
+ *     score: gold.answer === pred.answer ? 1 : 0,
+ *     feedback: `The correct answer is ${gold.answer}.`,
+ *   }),
+ *   reflection_lm: new LM(openai("gpt-4o")),
+ *   auto: "light",
+ *   log_dir: "gepa_logs",
+ * });
+ * const compiled = await optimizer.compile(program, { trainset, valset });
+ * ```
+ */
+export class GEPA extends Teleprompter {
+  public metric: GEPAFeedbackMetric;
+  public reflection_lm: LM;
+  public auto: "light" | "medium" | "heavy" | null;
+  public max_full_evals: number | null;
+  public max_metric_calls: number | null;
+  public reflection_minibatch_size: number;
+  public candidate_selection_strategy: "pareto" | "current_best";
+  public skip_perfect_score: boolean;
+  public num_threads: number;
+  public failure_score: number;
+  public perfect_score: number;
+  public log_dir: string | null;
+  public track_stats: boolean;
+  public seed: number;
+
+  constructor({
+    metric,
+    reflection_lm,
+    auto = null,
+    max_full_evals = null,
+    max_metric_calls = null,
+    reflection_minibatch_size = 3,
+    candidate_selection_strategy = "pareto",
+    skip_perfect_score = true,
+    num_threads = 1,
+    failure_score = 0,
+    perfect_score = 1,
+    log_dir = null,
+    track_stats = false,
+    seed = 0,
+  }: GEPAOptions) {
+    super();
+    const budgets = [auto, max_full_evals, max_metric_calls].filter(
+      (b) => b !== null
+    );
+    if (budgets.length !== 1) {
+      throw new Error(
+        "Exactly one of max_metric_calls, max_full_evals, auto must be set."
+      );
+    }
+
+    this.metric = metric;
+    this.reflection_lm = reflection_lm;
+    this.auto = auto;
+    this.max_full_evals = max_full_evals;
+    this.max_metric_calls = max_metric_calls;
+    this.reflection_minibatch_size = reflection_minibatch_size;
+    this.candidate_selection_strategy = candidate_selection_strategy;
+    this.skip_perfect_score = skip_perfect_score;
+    this.num_threads = num_threads;
+    this.failure_score = failure_score;
+    this.perfect_score = perfect_score;
+    this.log_dir = log_dir;
+    this.track_stats = track_stats;
+    this.seed = seed;
+  }
+
+  /**
+   * The number of metric calls MIPROv2 would make with `num_candidates` candidates, used as the
+   * budget of the `auto` run modes.
+   */
+  auto_budget(
+    num_preds: number,
+    num_candidates: number,
+    valset_size: number,
+    minibatch_size: number = 35,
+    full_eval_steps: number = 5
+  ): number {
+    const num_trials = Math.floor(
+      Math.max(2 * num_preds * Math.log2(num_candidates), 1.5 * num_candidates)
+    );
+    // The initial full evaluation, up to five bootstrapping trials per candidate and the minibatches
+    let total = valset_size + num_candidates * 5 + num_trials * minibatch_size;
+    if (num_trials === 0) {
+      return total;
+    }
+    const periodic_fulls = Math.floor((num_trials + 1) / full_eval_steps) + 1;
+    const extra_final = num_trials < full_eval_steps ? 1 : 0;
+    total += (periodic_fulls + extra_final) * valset_size;
+    return total;
+  }
+
+  async compile<M extends Module<any>>(
+    student: M,
+    { trainset, valset = null }: CompileOptions
+  ): Promise<M & { detailed_results?: GEPAResult<M> }> {
+    if (trainset.length === 0) {
+      throw new Error("Trainset must have at least 1 example.");
+    }
+    valset = valset ?? trainset;
+
+    const predictor_names = student.named_predictors().map(({ name }) => name);
+    if (predictor_names.length === 0) {
+      throw new Error(
+        "GEPA requires a program with at least one predictor that is not compiled"
+      );
+    }
+    const budget =
+      this.max_metric_calls ??
+      (this.max_full_evals !== null
+        ? this.max_full_evals * (trainset.length + valset.length)
+        : this.auto_budget(
+            predictor_names.length,
+            AUTO_RUN_SETTINGS[this.auto!],
+            valset.length
+          ));
+
+    const build_program = (candidate: GEPACandidate): M => {
+      const program = student.deepcopy();
+      for (const { name, predictor } of program.named_predictors()) {
+        predictor.signature = predictor.signature.withInstructions(
+          candidate[name]!
+        );
+      }
+      return program;
+    };
+
+    let state = await this.load_state(valset.length, predictor_names);
+    if (!state) {
+      const seed_candidate = Object.fromEntries(
+        student
+          .named_predictors()
+          .map(({ name, predictor }) => [
+            name,
+            predictor.signature.instructions ?? "",
+          ])
+      );
+      const scores = await this.evaluate(build_program(seed_candidate), valset);
+      state = {
+        candidates: [seed_candidate],
+        parents: [[null]],
+        val_subscores: [scores],
+        per_val_instance_best_candidates: scores.map(() => [0]),
+        discovery_eval_counts: [0],
+        next_predictor: [0],
+        valset_size: valset.length,
+        predictor_names,
+        total_metric_calls: valset.length,
+        num_full_val_evals: 1,
+        iteration: 0,
+      };
+      await this.save_state(state);
+    }
+
+    while (state.total_metric_calls < budget) {
+      state.iteration++;
+      // Seeded by iteration, so a resumed run makes the same choices
+      const rng = new Random(this.seed + state.iteration);
+
+      const idx = this.select_candidate(state, rng);
+      const candidate = state.candidates[idx]!;
+      const program = build_program(candidate);
+      const minibatch = this.minibatch(trainset, state.iteration);
+
+      const trajectories = await this.run_with_traces(program, minibatch);
+      state.total_metric_calls += minibatch.length;
+      const scores = trajectories.map(({ score }) => score);
+
+      if (
+        this.skip_perfect_score &&
+        scores.every((score) => score >= this.perfect_score)
+      ) {
+        await this.save_state(state);
+        continue;
+      }
+
+      // Update the predictors in turn
+      const predictor_index = state.next_predictor[idx]!;
+      state.next_predictor[idx] =
+        (predictor_index + 1) % predictor_names.length;
+      const name = predictor_names[predictor_index]!;
+
+      const dataset = this.make_reflective_dataset(
+        program,
+        name,
+        trajectories,
+        rng
+      );
+      if (dataset.length === 0) {
+        await this.save_state(state);
+        continue;
+      }
+
+      const new_candidate = {
+        ...candidate,
+        [name]: await propose_new_instruction(
+          this.reflection_lm,
+          candidate[name]!,
+          dataset
+        ),
+      };
+      const new_scores = await this.evaluate(
+        build_program(new_candidate),
+        minibatch
+      );
+      state.total_metric_calls += minibatch.length;
+
+      if (sum(new_scores) <= sum(scores)) {
+        await this.save_state(state);
+        continue;
+      }
+
+      const val_scores = await this.evaluate(
+        build_program(new_candidate),
+        valset
+      );
+      state.total_metric_calls += valset.length;
+      state.num_full_val_evals++;
+      this.add_candidate(state, new_candidate, idx, val_scores);
+      await this.save_state(state);
+    }
+
+    const val_aggregate_scores = state.val_subscores.map(mean);
+    const best_idx = argmax(val_aggregate_scores);
+    const best_program = build_program(state.candidates[best_idx]!);
+    best_program._compiled = true;
+
+    if (!this.track_stats) {
+      return best_program;
+    }
+    return Object.assign(best_program, {
+      detailed_results: {
+        candidates: state.candidates.map(build_program),
+        parents: state.parents,
+        val_aggregate_scores,
+        val_subscores: state.val_subscores,
+        per_val_instance_best_candidates:
+          state.per_val_instance_best_candidates,
+        discovery_eval_counts: state.discovery_eval_counts,
+        best_idx,
+        best_candidate: state.candidates[best_idx]!,
+        total_metric_calls: state.total_metric_calls,
+        num_full_val_evals: state.num_full_val_evals,
+        log_dir: this.log_dir,
+        seed: this.seed,
+      },
+    });
+  }
+
+  private add_candidate(
+    state: GEPAState,
+    candidate: GEPACandidate,
+    parent: number,
+    val_scores: number[]
+  ): void {
+    const idx = state.candidates.length;
+    state.candidates.push(candidate);
+    state.parents.push([parent]);
+    state.val_subscores.push(val_scores);
+    state.discovery_eval_counts.push(state.total_metric_calls);
+    state.next_predictor.push(state.next_predictor[parent]!);
+
+    val_scores.forEach((score, i) => {
+      const best = state.per_val_instance_best_candidates[i]!;
+      const best_score = state.val_subscores[best[0]!]![i]!;
+      if (score > best_score) {
+        state.per_val_instance_best_candidates[i] = [idx];
+      } else if (score === best_score) {
+        best.push(idx);
+      }
+    });
+  }
+
+  private select_candidate(state: GEPAState, rng: Random): number {
+    const aggregate_scores = state.val_subscores.map(mean);
+    if (this.candidate_selection_strategy === "current_best") {
+      return argmax(aggregate_scores);
+    }
+
+    // Drop candidates that are only best on examples where a remaining candidate is also best
+    const fronts = state.per_val_instance_best_candidates.map(
+      (front) => new Set(front)
+    );
+    const remaining = new Set(fronts.flatMap((front) => [...front]));
+    const by_score = [...remaining].sort(
+      (a, b) => aggregate_scores[a]! - aggregate_scores[b]!
+    );
+    for (const candidate of by_score) {
+      const dominated = fronts
+        .filter((front) => front.has(candidate))
+        .every((front) =>
+          [...front].some(
+            (other) => other !== candidate && remaining.has(other)
+          )
+        );
+      if (dominated && remaining.size > 1) {
+        remaining.delete(candidate);
+      }
+    }
+
+    // Sample candidates by the number of examples they are best on
+    const weighted = fronts.flatMap((front) =>
+      [...front].filter((candidate) => remaining.has(candidate))
+    );
+    return rng.choice(weighted);
+  }
+
+  /**
+   * Returns the examples of the iteration's minibatch. The trainset is reshuffled every epoch.
+   */
+  private minibatch(
+    trainset: Example<any>[],
+    iteration: number
+  ): Example<any>[] {
+    const size = Math.min(this.reflection_minibatch_size, trainset.length);
+    const batches_per_epoch = Math.ceil(trainset.length / size);
+    const epoch = Math.floor((iteration - 1) / batches_per_epoch);
+    const batch = (iteration - 1) % batches_per_epoch;
+
+    const ids = new Random(this.seed + epoch).shuffle(
+      trainset.map((_, i) => i)
+    );
+    // Pad the last batch with the first examples of the epoch
+    while (ids.length < batches_per_epoch * size) {
+      ids.push(ids[ids.length % trainset.length]!);
+    }
+    return ids.slice(batch * size, (batch + 1) * size).map((i) => trainset[i]!);
+  }
+
+  /**
+   * Scores the program on the examples. Failed runs get the failure score.
+   */
+  private async evaluate(
+    program: Module<any>,
+    examples: Example<any>[]
+  ): Promise<number[]> {
+    const trajectories = await this.run_with_traces(program, examples);
+    return trajectories.map(({ score }) => score);
+  }
+
+  private async run_with_traces(
+    program: Module<any>,
+    examples: Example<any>[]
+  ): Promise<Trajectory[]> {
+    const executor = new ParallelExecutor({
+      num_threads: this.num_threads,
+      max_errors: Infinity,
+    });
+    const results = await executor.execute(async (example) => {
+      const trace: DSTsTrace = [];
+      try {
+        const prediction = await traceStorage.run(trace, () =>
+          program.run(example.inputs())
+        );
+        const { score, feedback } = to_score_with_feedback(
+          await this.metric(example, prediction, trace)
+        );
+        return {
+          example,
+          prediction,
+          trace,
+          score,
+          feedback: feedback ?? `This trajectory got a score of ${score}.`,
+        };
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        return {
+          example,
+          prediction: null,
+          trace,
+          score: this.failure_score,
+          feedback: `The program failed with an error: ${error}`,
+          error,
+        };
+      }
+    }, examples);
+    return results as Trajectory[];
+  }
+
+  /**
+   * Collects the inputs, outputs and metric feedback of the named predictor in each trajectory.
+   * A failed run the predictor left no trace in is reflected on with the inputs of the example
+   * and the error.
+   */
+  private make_reflective_dataset(
+    program: Module<any>,
+    name: string,
+    trajectories: Trajectory[],
+    rng: Random
+  ): ReflectiveExample[] {
+    const predictor = program
+      .named_predictors()
+      .find((p) => p.name === name)!.predictor;
+    const output_keys = Object.keys(predictor.signature.output_fields);
+
+    const dataset: ReflectiveExample[] = [];
+    for (const { example, trace, feedback, error } of trajectories) {
+      const pred_trace = trace.filter(({ instance }) => instance === predictor);
+      if (pred_trace.length === 0) {
+        if (error !== undefined) {
+          dataset.push({
+            Inputs: example.inputs().toDict(),
+            "Generated Outputs": error,
+            Feedback: feedback,
+          });
+        }
+        continue;
+      }
+
+      // A predictor called several times in a run is reflected on through one of its calls
+      const selected = rng.choice(pred_trace);
+      dataset.push({
+        Inputs: { ...selected.example },
+        "Generated Outputs": Object.fromEntries(
+          output_keys.map((key) => [key, selected.prediction[key]])
+        ),
+        Feedback: feedback,
+      });
+    }
+    return dataset;
+  }
+
+  private state_path(): string | null {
+    return this.log_dir ? join(this.log_dir, STATE_FILE) : null;
+  }
+
+  /**
+   * Loads the saved state, and throws if it was saved for another valset size or other predictors.
+   */
+  private async load_state(
+    valset_size: number,
+    predictor_names: string[]
+  ): Promise<GEPAState | null> {
+    const path = this.state_path();
+    if (!path || !(await Bun.file(path).exists())) {
+      return null;
+    }
+    const state = (await Bun.file(path).json()) as GEPAState;
+    if (state.valset_size !== valset_size) {
+      throw new Error(
+        `The GEPA state in ${path} was saved for a valset of ${state.valset_size} examples, not ${valset_size}.`
+      );
+    }
+    if (
+      state.predictor_names?.length !== predictor_names.length ||
+      state.predictor_names.some((name, i) => name !== predictor_names[i])
+    ) {
+      throw new Error(
+        `The GEPA state in ${path} was saved for the predictors ${JSON.stringify(
+          state.predictor_names
+        )}, not ${JSON.stringify(predictor_names)}.`
+      );
+    }
+    return state;
+  }
+
+  private async save_state(state: GEPAState): Promise<void> {
+    const path = this.state_path();
+    if (path) {
+      await Bun.write(path, JSON.stringify(state, null, 2));
+    }
+  }
+}
+
+interface Trajectory {
+  example: Example<any>;
+  prediction: Prediction<any, any> | null;
+  trace: DSTsTrace;
+  score: number;
+  feedback: string;
+  /**
+   * The error message of a failed run.
+   */
+  error?: string;
+}
+
+function to_score_with_feedback(result: number | boolean | ScoreWithFeedback): {
+  score: number;
+  feedback?: string;
+} {
+  if (typeof result === "object") {
+    return result;
+  }
+  return { score: Number(result) };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : sum(values) / values.length;
+}
+
+function argmax(values: number[]): number {
+  return values.reduce(
+    (best, value, i) => (value > values[best]! ? i : best),
+    0
+  );
+}
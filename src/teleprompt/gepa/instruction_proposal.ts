@@ -0,0 +1,116 @@
+import type { LM } from "../../clients/lm";
+
+/**
+ * A record of the reflective dataset: what a predictor was given and produced in one run of the
+ * program, and the metric's feedback on the run.
+ */
+export interface ReflectiveExample {
+  Inputs: Record<string, any>;
+  "Generated Outputs": Record<string, any> | string;
+  Feedback: string;
+}
+
+/**
+ * The prompt asking the reflection LM for a new instruction, matching GEPA's default.
+ */
+export const INSTRUCTION_PROPOSAL_PROMPT = `I provided an assistant with the following instructions to perform a task for me:
+\`\`\`
+<curr_instructions>
+\`\`\`
+
+The following are examples of different task inputs provided to the assistant along with the assistant's response for each of them, and some feedback on how the assistant's response could be better:
+\`\`\`
+<inputs_outputs_feedback>
+\`\`\`
+
+Your task is to write a new instruction for the assistant.
+
+Read the inputs carefully and identify the input format and infer detailed task description about the task I wish to solve with the assistant.
+
+Read all the assistant responses and the corresponding feedback. Identify all niche and domain specific factual information about the task and include it in the instruction, as a lot of it may not be available to the assistant in the future. The assistant may have utilized a generalizable strategy to solve the task, if so, include that in the instruction as well.
+
+Provide the new instructions within \`\`\` blocks.`;
+
+/**
+ * Renders the reflective dataset as markdown, one `# Example N` section per record.
+ */
+export function format_samples(samples: ReflectiveExample[]): string {
+  const render_value = (value: unknown, level: number): string => {
+    if (Array.isArray(value)) {
+      const items = value.map(
+        (item, i) =>
+          `${"#".repeat(level)} Item ${i + 1}\n` +
+          render_value(item, Math.min(level + 1, 6))
+      );
+      return items.length > 0 ? items.join("") : "\n";
+    }
+    if (typeof value === "object" && value !== null) {
+      const entries = Object.entries(value).map(
+        ([k, v]) =>
+          `${"#".repeat(level)} ${k}\n` +
+          render_value(v, Math.min(level + 1, 6))
+      );
+      return entries.length > 0 ? entries.join("") : "\n";
+    }
+    return `${String(value).trim()}\n\n`;
+  };
+
+  return samples
+    .map(
+      (sample, i) =>
+        `# Example ${i + 1}\n` +
+        Object.entries(sample)
+          .map(([key, value]) => `## ${key}\n` + render_value(value, 3))
+          .join("")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Extracts the instruction from the reflection LM's response: the content of the outermost
+ * ``` block, or the whole response if there is none.
+ */
+export function extract_instruction_text(lm_output: string): string {
+  const start = lm_output.indexOf("```") + 3;
+  const end = lm_output.lastIndexOf("```");
+
+  if (start >= end) {
+    const stripped = lm_output.trim();
+    if (stripped.startsWith("```")) {
+      return stripped.replace(/^```\S*\n?/, "").trim();
+    }
+    if (stripped.endsWith("```")) {
+      return stripped.slice(0, -3).trim();
+    }
+    return stripped;
+  }
+
+  // Drop the language tag of the block, if any
+  return lm_output
+    .slice(start, end)
+    .replace(/^\S*\n/, "")
+    .trim();
+}
+
+/**
+ * Asks the reflection LM for an improved instruction, given the current one and the
+ * reflective dataset of the predictor.
+ */
+export async function propose_new_instruction(
+  reflection_lm: LM,
+  current_instruction: string,
+  dataset_with_feedback: ReflectiveExample[]
+): Promise<string> {
+  // Replacer functions, so `$` in the texts isn't treated as a pattern
+  const prompt = INSTRUCTION_PROPOSAL_PROMPT.replace(
+    "<curr_instructions>",
+    () => current_instruction
+  ).replace("<inputs_outputs_feedback>", () =>
+    format_samples(dataset_with_feedback)
+  );
+
+  const result = await reflection_lm.generateText({
+    messages: [{ role: "user", content: prompt }],
+  });
+  return extract_instruction_text(result.text);
+}
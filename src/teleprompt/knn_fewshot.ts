@@ -0,0 +1,98 @@
+import type { EmbeddingModel } from "ai";
+import type { Module } from "../primitives/module";
+import type { Example } from "../primitives/example";
+import { KNN, type KNNState } from "../predict/knn";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import { BootstrapFewShot, type BootstrapFewShotOptions } from "./bootstrap";
+import { LabeledFewShot } from "./vanilla";
+
+/**
+ * KNNFewShot picks the demos of a program for each call: the `k` training examples nearest to the
+ * call's inputs, matching dspy.KNNFewShot.
+ *
+ * The compiled program embeds its inputs on every call, retrieves the nearest examples with a
+ * KNN, and runs with them as the demos of every predictor. With `few_shot_bootstrap_args`, the
+ * neighbors are instead the trainset of a BootstrapFewShot compiled for the call, as in DSPy.
+ *
+ * The index is attached to the program as `knn`, and saved along with the predictors by
+ * `save()`, so a loaded program doesn't embed the trainset again.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new KNNFewShot({
+ *   k: 3,
+ *   trainset,
+ *   vectorizer: openai.embedding("text-embedding-3-small"),
+ * });
+ * const compiled = await optimizer.compile(program);
+ * ```
+ */
+export class KNNFewShot extends Teleprompter {
+  public knn: KNN;
+  public few_shot_bootstrap_args: BootstrapFewShotOptions | null;
+
+  constructor({
+    k,
+    trainset,
+    vectorizer,
+    few_shot_bootstrap_args = null,
+  }: {
+    k: number;
+    trainset: Example<any>[];
+    vectorizer: EmbeddingModel;
+    few_shot_bootstrap_args?: BootstrapFewShotOptions | null;
+  }) {
+    super();
+    this.knn = new KNN({ k, trainset, vectorizer });
+    this.few_shot_bootstrap_args = few_shot_bootstrap_args;
+  }
+
+  /**
+   * The trainset is the one given to the constructor.
+   */
+  async compile<M extends Module<any>>(
+    student: M,
+    { teacher = null }: Partial<CompileOptions> = {}
+  ): Promise<M & { knn: KNN }> {
+    const few_shot_bootstrap_args = this.few_shot_bootstrap_args;
+    const prototype = Object.getPrototypeOf(student);
+
+    const compiled = Object.assign(student.reset_copy(), {
+      knn: this.knn,
+
+      async forward(this: M & { knn: KNN }, input: any, ...args: any[]) {
+        const trainset = await this.knn.run(input);
+        // A copy running the student's own forward, given the neighbors as demos
+        const program = this.deepcopy() as any;
+        delete program.forward;
+
+        const with_demos = few_shot_bootstrap_args
+          ? await new BootstrapFewShot(few_shot_bootstrap_args).compile(
+              program as M,
+              { trainset, teacher }
+            )
+          : await new LabeledFewShot(trainset.length).compile(program as M, {
+              trainset,
+              sample: false,
+            });
+        return with_demos.forward(input, ...args);
+      },
+
+      dump_state(this: M & { knn: KNN }) {
+        return {
+          ...prototype.dump_state.call(this),
+          knn: this.knn.dump_state(),
+        };
+      },
+
+      load_state(this: M & { knn: KNN }, state: Record<string, any>) {
+        prototype.load_state.call(this, state);
+        if (state.knn) {
+          this.knn.load_state(state.knn as KNNState);
+        }
+      },
+    });
+    compiled._compiled = true;
+    return compiled;
+  }
+}
@@ -0,0 +1,491 @@
+import type { Module } from "../primitives/module";
+import type { Example, ExampleData } from "../primitives/example";
+import type { LM } from "../clients/lm";
+import { Evaluate, type Metric } from "../evaluate/evaluate";
+import { GroundedProposer } from "../propose/grounded_proposer";
+import { Random } from "../utils/random";
+import { TPESampler, type TPEParams } from "../utils/tpe";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import { create_n_fewshot_demo_sets } from "./utils";
+
+/**
+ * The number of instruction and demo candidates, and the maximum validation set size, of each
+ * `auto` run mode.
+ */
+export const AUTO_RUN_SETTINGS = {
+  light: { n: 6, val_size: 100 },
+  medium: { n: 12, val_size: 300 },
+  heavy: { n: 18, val_size: 1000 },
+};
+
+/**
+ * A program evaluated by MIPROv2, on the full validation set or on a minibatch.
+ */
+export interface MIPROv2Candidate<M extends Module<any> = Module<any>> {
+  score: number;
+  program: M;
+  full_eval: boolean;
+}
+
+/**
+ * The instructions and demo sets (as indices into the candidates of each predictor) tried by a
+ * trial, and its score.
+ */
+export interface MIPROv2TrialLog {
+  trial: number;
+  instructions: number[];
+  demos: number[] | null;
+  score: number;
+  full_eval: boolean;
+}
+
+/**
+ * The search results MIPROv2 attaches to the program it returns.
+ */
+export interface MIPROv2Results<M extends Module<any> = Module<any>> {
+  /**
+   * The score of the program on the full validation set, as a percentage.
+   */
+  score: number;
+  /**
+   * The candidates evaluated on the full validation set, best first.
+   */
+  candidate_programs: MIPROv2Candidate<M>[];
+  /**
+   * The candidates evaluated on a minibatch, best first.
+   */
+  mb_candidate_programs: MIPROv2Candidate<M>[];
+  trial_logs: MIPROv2TrialLog[];
+  /**
+   * The number of validation examples evaluated during the search.
+   */
+  total_calls: number;
+}
+
+export interface MIPROv2Options {
+  metric: Metric;
+  /**
+   * The LM proposing instructions. Defaults to the configured LM.
+   */
+  prompt_model?: LM | null;
+  max_bootstrapped_demos?: number;
+  max_labeled_demos?: number;
+  /**
+   * Sets the number of candidates, the number of trials and the validation set size.
+   * Set it to null to give `num_candidates` and `num_trials` yourself.
+   */
+  auto?: keyof typeof AUTO_RUN_SETTINGS | null;
+  /**
+   * The number of instruction candidates and of demo set candidates of each predictor.
+   */
+  num_candidates?: number | null;
+  num_threads?: number;
+  max_errors?: number;
+  seed?: number;
+  init_temperature?: number;
+  metric_threshold?: number | null;
+}
+
+/**
+ * MIPROv2 optimizes the instructions and demos of every predictor together, matching
+ * dspy.MIPROv2.
+ *
+ * 1. Bootstraps candidate demo sets for each predictor, as BootstrapFewShotWithRandomSearch does.
+ * 2. Proposes candidate instructions for each predictor with a GroundedProposer.
+ * 3. Searches over the instruction × demo set combinations with a TPE sampler, scoring each trial
+ *    on a minibatch of the validation set and periodically evaluating the combination with the
+ *    best average score on the full validation set.
+ *
+ * The best program has its instructions set with `Signature.withInstructions`, so `save()`
+ * persists them along with the demos.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new MIPROv2({ metric: answer_exact_match, auto: "light" });
+ * const compiled = await optimizer.compile(program, { trainset });
+ * await compiled.save("program.json");
+ * ```
+ */
+export class MIPROv2 extends Teleprompter {
+  public metric: Metric;
+  public prompt_model: LM | null;
+  public max_bootstrapped_demos: number;
+  public max_labeled_demos: number;
+  public auto: keyof typeof AUTO_RUN_SETTINGS | null;
+  public num_candidates: number | null;
+  public num_threads: number;
+  public max_errors: number;
+  public seed: number;
+  public init_temperature: number;
+  public metric_threshold: number | null;
+  private rng: Random;
+
+  constructor({
+    metric,
+    prompt_model = null,
+    max_bootstrapped_demos = 4,
+    max_labeled_demos = 4,
+    auto = "light",
+    num_candidates = null,
+    num_threads = 1,
+    max_errors = 10,
+    seed = 9,
+    init_temperature = 1.0,
+    metric_threshold = null,
+  }: MIPROv2Options) {
+    super();
+    this.metric = metric;
+    this.prompt_model = prompt_model;
+    this.max_bootstrapped_demos = max_bootstrapped_demos;
+    this.max_labeled_demos = max_labeled_demos;
+    this.auto = auto;
+    this.num_candidates = num_candidates;
+    this.num_threads = num_threads;
+    this.max_errors = max_errors;
+    this.seed = seed;
+    this.init_temperature = init_temperature;
+    this.metric_threshold = metric_threshold;
+    this.rng = new Random(seed);
+  }
+
+  /**
+   * @param options.valset - Defaults to the last 80% of the trainset, the rest being used for
+   * bootstrapping and proposing.
+   * @param options.num_trials - The number of instruction × demo combinations to try. Only set it when `auto` is null.
+   * @param options.minibatch - Whether trials are scored on minibatches of the validation set.
+   * @param options.minibatch_full_eval_steps - The number of trials between full evaluations.
+   */
+  async compile<M extends Module<any>>(
+    student: M,
+    {
+      trainset,
+      teacher = null,
+      valset = null,
+      num_trials = null,
+      minibatch = true,
+      minibatch_size = 35,
+      minibatch_full_eval_steps = 5,
+      program_aware_proposer = true,
+      data_aware_proposer = true,
+      tip_aware_proposer = true,
+      fewshot_aware_proposer = true,
+      view_data_batch_size = 10,
+    }: CompileOptions & {
+      num_trials?: number | null;
+      minibatch?: boolean;
+      minibatch_size?: number;
+      minibatch_full_eval_steps?: number;
+      program_aware_proposer?: boolean;
+      data_aware_proposer?: boolean;
+      tip_aware_proposer?: boolean;
+      fewshot_aware_proposer?: boolean;
+      view_data_batch_size?: number;
+    }
+  ): Promise<M & MIPROv2Results<M>> {
+    this.rng = new Random(this.seed);
+
+    if (
+      this.auto === null &&
+      (this.num_candidates === null || num_trials === null)
+    ) {
+      throw new Error(
+        "If auto is null, num_candidates and num_trials must be provided."
+      );
+    }
+    if (
+      this.auto !== null &&
+      (this.num_candidates !== null || num_trials !== null)
+    ) {
+      throw new Error(
+        "If auto is not null, num_candidates and num_trials cannot be set, since they would be overridden by the auto settings."
+      );
+    }
+
+    [trainset, valset] = this.set_and_validate_datasets(trainset, valset);
+
+    const program = student.deepcopy();
+    const zeroshot =
+      this.max_bootstrapped_demos === 0 && this.max_labeled_demos === 0;
+
+    let num_candidates = this.num_candidates ?? 0;
+    if (this.auto !== null) {
+      const settings = AUTO_RUN_SETTINGS[this.auto];
+      num_candidates = settings.n;
+      num_trials = this.num_trials_from_num_candidates(
+        program,
+        zeroshot,
+        num_candidates
+      );
+      valset = this.rng.sample(
+        valset,
+        Math.min(settings.val_size, valset.length)
+      );
+    }
+
+    if (minibatch && minibatch_size > valset.length) {
+      throw new Error(
+        `Minibatch size cannot exceed the size of the valset. Valset size: ${valset.length}.`
+      );
+    }
+
+    const demo_candidates = zeroshot
+      ? null
+      : await create_n_fewshot_demo_sets(program, num_candidates, {
+          trainset,
+          max_labeled_demos: this.max_labeled_demos,
+          max_bootstrapped_demos: this.max_bootstrapped_demos,
+          metric: this.metric,
+          metric_threshold: this.metric_threshold,
+          max_errors: this.max_errors,
+          teacher,
+          seed: this.seed,
+          rng: this.rng,
+        });
+
+    const proposer = new GroundedProposer({
+      prompt_model: this.prompt_model,
+      program,
+      view_data_batch_size,
+      program_aware: program_aware_proposer,
+      use_dataset_summary: data_aware_proposer,
+      use_task_demos: fewshot_aware_proposer && demo_candidates !== null,
+      use_tip: tip_aware_proposer,
+      set_tip_randomly: tip_aware_proposer,
+      init_temperature: this.init_temperature,
+      rng: this.rng,
+    });
+    const instruction_candidates =
+      await proposer.propose_instructions_for_program({
+        trainset,
+        demo_candidates,
+        N: num_candidates,
+      });
+
+    const best_program = await this.optimize_prompt_parameters(
+      program,
+      instruction_candidates,
+      demo_candidates,
+      valset,
+      num_trials!,
+      minibatch,
+      minibatch_size,
+      minibatch_full_eval_steps
+    );
+    best_program._compiled = true;
+    return best_program as M & MIPROv2Results<M>;
+  }
+
+  /**
+   * Splits off the validation set from the trainset when it isn't given.
+   */
+  private set_and_validate_datasets(
+    trainset: Example<any>[],
+    valset: Example<any>[] | null
+  ): [Example<any>[], Example<any>[]] {
+    if (trainset.length === 0) {
+      throw new Error("Trainset cannot be empty.");
+    }
+    if (valset) {
+      if (valset.length === 0) {
+        throw new Error("Valset cannot be empty.");
+      }
+      return [trainset, valset];
+    }
+
+    if (trainset.length < 2) {
+      throw new Error(
+        "Trainset must have at least 2 examples if no valset specified."
+      );
+    }
+    const valset_size = Math.min(
+      1000,
+      Math.max(1, Math.floor(trainset.length * 0.8))
+    );
+    const cutoff = trainset.length - valset_size;
+    return [trainset.slice(0, cutoff), trainset.slice(cutoff)];
+  }
+
+  private num_trials_from_num_candidates(
+    program: Module<any>,
+    zeroshot: boolean,
+    num_candidates: number
+  ): number {
+    let num_vars = program.named_predictors().length;
+    if (!zeroshot) {
+      num_vars *= 2;
+    }
+    return Math.floor(
+      Math.max(2 * num_vars * Math.log2(num_candidates), 1.5 * num_candidates)
+    );
+  }
+
+  private async optimize_prompt_parameters<M extends Module<any>>(
+    program: M,
+    instruction_candidates: string[][],
+    demo_candidates: ExampleData<any>[][][] | null,
+    valset: Example<any>[],
+    num_trials: number,
+    minibatch: boolean,
+    minibatch_size: number,
+    minibatch_full_eval_steps: number
+  ): Promise<M & MIPROv2Results<M>> {
+    const evaluate = new Evaluate({
+      devset: valset,
+      metric: this.metric,
+      num_threads: this.num_threads,
+      max_errors: this.max_errors,
+    });
+    const evaluate_on = async (candidate: M, batch_size: number) => {
+      const devset =
+        batch_size >= valset.length
+          ? valset
+          : this.rng.sample(valset, batch_size);
+      return (await evaluate.run(candidate, { devset })).score;
+    };
+
+    const sampler = new TPESampler({ seed: this.seed });
+    const space: Record<string, number> = {};
+    instruction_candidates.forEach((candidates, i) => {
+      space[`${i}_predictor_instruction`] = candidates.length;
+      if (demo_candidates) {
+        space[`${i}_predictor_demos`] = demo_candidates[i]!.length;
+      }
+    });
+
+    // The unchanged program is the first trial
+    const default_params = Object.fromEntries(
+      Object.keys(space).map((name) => [name, 0])
+    );
+    const default_score = await evaluate_on(program, valset.length);
+    sampler.tell(default_params, default_score);
+
+    let best_score = default_score;
+    let best_program = program.deepcopy();
+    let total_calls = valset.length;
+    const score_data: MIPROv2Candidate<M>[] = [
+      { score: default_score, program: program.deepcopy(), full_eval: true },
+    ];
+    const trial_logs: MIPROv2TrialLog[] = [
+      this.trial_log(
+        0,
+        default_params,
+        instruction_candidates,
+        default_score,
+        true
+      ),
+    ];
+
+    // Minibatch scores of each combination, and the combinations evaluated on the full valset
+    const param_scores = new Map<
+      string,
+      { scores: number[]; program: M; params: TPEParams }
+    >();
+    const fully_evaluated = new Set<string>();
+
+    const full_evaluation = async (trial: number) => {
+      const candidates = [...param_scores.entries()]
+        .map(([key, { scores, program, params }]) => ({
+          key,
+          program,
+          params,
+          mean: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+        }))
+        .sort((a, b) => b.mean - a.mean);
+      const best =
+        candidates.find(({ key }) => !fully_evaluated.has(key)) ??
+        candidates[0];
+      if (!best) return;
+
+      const score = await evaluate_on(best.program, valset.length);
+      total_calls += valset.length;
+      fully_evaluated.add(best.key);
+      sampler.tell(best.params, score);
+      score_data.push({ score, program: best.program, full_eval: true });
+      trial_logs.push(
+        this.trial_log(trial, best.params, instruction_candidates, score, true)
+      );
+
+      if (score > best_score) {
+        best_score = score;
+        best_program = best.program.deepcopy();
+      }
+    };
+
+    for (let trial = 1; trial <= num_trials; trial++) {
+      const params = sampler.sample(space);
+      const candidate = program.deepcopy();
+      candidate.named_predictors().forEach(({ predictor }, i) => {
+        predictor.signature = predictor.signature.withInstructions(
+          instruction_candidates[i]![params[`${i}_predictor_instruction`]!]!
+        );
+        if (demo_candidates) {
+          predictor.demos = [
+            ...demo_candidates[i]![params[`${i}_predictor_demos`]!]!,
+          ];
+        }
+      });
+
+      const batch_size = minibatch ? minibatch_size : valset.length;
+      const score = await evaluate_on(candidate, batch_size);
+      total_calls += batch_size;
+      sampler.tell(params, score);
+
+      const full_eval = batch_size >= valset.length;
+      score_data.push({ score, program: candidate, full_eval });
+      trial_logs.push(
+        this.trial_log(trial, params, instruction_candidates, score, full_eval)
+      );
+
+      if (!minibatch) {
+        if (score > best_score) {
+          best_score = score;
+          best_program = candidate.deepcopy();
+        }
+        continue;
+      }
+
+      const key = JSON.stringify(params);
+      const entry = param_scores.get(key);
+      if (entry) {
+        entry.scores.push(score);
+      } else {
+        param_scores.set(key, { scores: [score], program: candidate, params });
+      }
+      if (trial % minibatch_full_eval_steps === 0 || trial === num_trials) {
+        await full_evaluation(trial);
+      }
+    }
+
+    const sorted = [...score_data].sort((a, b) => b.score - a.score);
+    return Object.assign(best_program, {
+      score: best_score,
+      candidate_programs: sorted.filter(({ full_eval }) => full_eval),
+      mb_candidate_programs: sorted.filter(({ full_eval }) => !full_eval),
+      trial_logs,
+      total_calls,
+    });
+  }
+
+  private trial_log(
+    trial: number,
+    params: TPEParams,
+    instruction_candidates: string[][],
+    score: number,
+    full_eval: boolean
+  ): MIPROv2TrialLog {
+    return {
+      trial,
+      instructions: instruction_candidates.map(
+        (_, i) => params[`${i}_predictor_instruction`]!
+      ),
+      demos:
+        `0_predictor_demos` in params
+          ? instruction_candidates.map(
+              (_, i) => params[`${i}_predictor_demos`]!
+            )
+          : null,
+      score,
+      full_eval,
+    };
+  }
+}
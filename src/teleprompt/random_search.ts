@@ -0,0 +1,196 @@
+import type { Module } from "../primitives/module";
+import type { Example } from "../primitives/example";
+import { Evaluate, type Metric } from "../evaluate/evaluate";
+import { Random } from "../utils/random";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import { LabeledFewShot } from "./vanilla";
+import { BootstrapFewShot, type BootstrapFewShotOptions } from "./bootstrap";
+
+/**
+ * A program evaluated by BootstrapFewShotWithRandomSearch.
+ *
+ * The seed tells how the program was built: -3 is the zero-shot student, -2 the student with
+ * labeled demos only, -1 BootstrapFewShot on the unshuffled trainset, and seeds from 0 up
+ * BootstrapFewShot on a shuffled trainset with a random number of bootstrapped demos.
+ */
+export interface CandidateProgram<M extends Module<any> = Module<any>> {
+  score: number;
+  /**
+   * The score of each validation example.
+   */
+  subscores: number[];
+  seed: number;
+  program: M;
+}
+
+export interface BootstrapFewShotWithRandomSearchOptions
+  extends BootstrapFewShotOptions {
+  metric: Metric;
+  /**
+   * The number of candidates with shuffled trainsets, on top of the three baselines.
+   */
+  num_candidate_programs?: number;
+  /**
+   * The number of validation examples evaluated at the same time.
+   */
+  num_threads?: number;
+  /**
+   * Stops the search once a candidate scores at least this percentage.
+   */
+  stop_at_score?: number | null;
+}
+
+/**
+ * BootstrapFewShotWithRandomSearch compiles many candidate programs and returns the one that
+ * scores best on the validation set, matching dspy.BootstrapFewShotWithRandomSearch.
+ *
+ * Besides the zero-shot, labeled-only and unshuffled BootstrapFewShot baselines, each candidate
+ * is compiled by BootstrapFewShot on a trainset shuffled with its seed, with between 1 and
+ * `max_bootstrapped_demos` bootstrapped demos. The returned program has every candidate in
+ * `candidate_programs`, sorted by score.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new BootstrapFewShotWithRandomSearch({
+ *   metric: answer_exact_match,
+ *   num_candidate_programs: 8,
+ *   num_threads: 4,
+ * });
+ * const compiled = await optimizer.compile(program, { trainset, valset });
+ * console.log(compiled.candidate_programs.map((c) => c.score));
+ * ```
+ */
+export class BootstrapFewShotWithRandomSearch extends Teleprompter {
+  public metric: Metric;
+  public metric_threshold: number | null;
+  public max_bootstrapped_demos: number;
+  public max_labeled_demos: number;
+  public max_rounds: number;
+  public max_errors: number;
+  public num_candidate_programs: number;
+  public num_threads: number;
+  public stop_at_score: number | null;
+  public min_num_samples: number = 1;
+
+  constructor({
+    metric,
+    metric_threshold = null,
+    max_bootstrapped_demos = 4,
+    max_labeled_demos = 16,
+    max_rounds = 1,
+    max_errors = 10,
+    num_candidate_programs = 16,
+    num_threads = 1,
+    stop_at_score = null,
+  }: BootstrapFewShotWithRandomSearchOptions) {
+    super();
+    this.metric = metric;
+    this.metric_threshold = metric_threshold;
+    this.max_bootstrapped_demos = max_bootstrapped_demos;
+    this.max_labeled_demos = max_labeled_demos;
+    this.max_rounds = max_rounds;
+    this.max_errors = max_errors;
+    this.num_candidate_programs = num_candidate_programs;
+    this.num_threads = num_threads;
+    this.stop_at_score = stop_at_score;
+  }
+
+  /**
+   * @param options.valset - The examples candidates are scored on. Defaults to the trainset.
+   * @param options.restrict - Only builds the candidates with these seeds.
+   * @param options.labeled_sample - Whether the labeled-only baseline samples its demos.
+   */
+  async compile<M extends Module<any>>(
+    student: M,
+    {
+      trainset,
+      teacher = null,
+      valset = null,
+      restrict = null,
+      labeled_sample = true,
+    }: CompileOptions & { restrict?: number[] | null; labeled_sample?: boolean }
+  ): Promise<M & { candidate_programs: CandidateProgram<M>[] }> {
+    const evaluate = new Evaluate({
+      devset: valset ?? trainset,
+      metric: this.metric,
+      num_threads: this.num_threads,
+      max_errors: this.max_errors,
+    });
+
+    const candidates: CandidateProgram<M>[] = [];
+    let best: CandidateProgram<M> | null = null;
+
+    for (let seed = -3; seed < this.num_candidate_programs; seed++) {
+      if (restrict && !restrict.includes(seed)) continue;
+
+      const program = await this.compile_candidate(
+        student,
+        teacher,
+        [...trainset],
+        seed,
+        labeled_sample
+      );
+
+      const result = await evaluate.run(program);
+      const candidate: CandidateProgram<M> = {
+        score: result.score,
+        subscores: result.results.map(({ score }) => score),
+        seed,
+        program,
+      };
+      candidates.push(candidate);
+      if (!best || candidate.score > best.score) {
+        best = candidate;
+      }
+
+      if (this.stop_at_score !== null && result.score >= this.stop_at_score) {
+        break;
+      }
+    }
+
+    if (!best) {
+      throw new Error("No candidate programs were compiled");
+    }
+
+    return Object.assign(best.program, {
+      candidate_programs: candidates.sort((a, b) => b.score - a.score),
+    });
+  }
+
+  private async compile_candidate<M extends Module<any>>(
+    student: M,
+    teacher: Module<any> | null,
+    trainset: Example<any>[],
+    seed: number,
+    labeled_sample: boolean
+  ): Promise<M> {
+    if (seed === -3) {
+      return student.reset_copy();
+    }
+    if (seed === -2) {
+      return new LabeledFewShot(this.max_labeled_demos).compile(student, {
+        trainset,
+        sample: labeled_sample,
+      });
+    }
+
+    let max_bootstrapped_demos = this.max_bootstrapped_demos;
+    if (seed >= 0) {
+      new Random(seed).shuffle(trainset);
+      max_bootstrapped_demos = new Random(seed).randint(
+        this.min_num_samples,
+        this.max_bootstrapped_demos
+      );
+    }
+
+    const optimizer = new BootstrapFewShot({
+      metric: this.metric,
+      metric_threshold: this.metric_threshold,
+      max_bootstrapped_demos,
+      max_labeled_demos: this.max_labeled_demos,
+      max_rounds: this.max_rounds,
+      max_errors: this.max_errors,
+    });
+    return optimizer.compile(student, { trainset, teacher });
+  }
+}
@@ -0,0 +1,435 @@
+import type { Module } from "../primitives/module";
+import type { Example } from "../primitives/example";
+import type { Predict } from "../predict/predict";
+import type { LM } from "../clients/lm";
+import type { Metric } from "../evaluate/evaluate";
+import { settings } from "../settings";
+import { ParallelExecutor } from "../utils/parallel";
+import { AdapterParseError } from "../exceptions";
+import { Random } from "../utils/random";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+import {
+  append_a_demo,
+  append_a_rule,
+  run_and_score,
+  type SIMBAStrategy,
+  type SIMBATrajectory,
+} from "./simba_utils";
+
+/**
+ * A program scored by SIMBA on the trainset.
+ */
+export interface SIMBACandidate<M extends Module<any> = Module<any>> {
+  score: number;
+  program: M;
+}
+
+/**
+ * What happened at a step of SIMBA.
+ */
+export interface SIMBATrialLog {
+  /**
+   * The scores of the sampled trajectories on the step's mini-batch.
+   */
+  batch_scores: number[];
+  /**
+   * The average mini-batch score of each new candidate.
+   */
+  candidate_scores: number[];
+  /**
+   * The trainset score of the step's best candidate, if it was among the final candidates.
+   */
+  train_score?: number;
+}
+
+export interface SIMBAOptions {
+  metric: Metric;
+  /**
+   * The mini-batch size.
+   */
+  bsize?: number;
+  /**
+   * The number of LM temperatures sampled per example, and of new candidates per step.
+   */
+  num_candidates?: number;
+  max_steps?: number;
+  /**
+   * The number of demos a predictor keeps before SIMBA starts dropping some. Without demos,
+   * SIMBA only appends rules.
+   */
+  max_demos?: number;
+  /**
+   * The LM writing the rules. Defaults to the configured LM.
+   */
+  prompt_model?: LM | null;
+  demo_input_field_maxlen?: number;
+  num_threads?: number;
+  /**
+   * The softmax temperature when picking the programs sampled for trajectories.
+   */
+  temperature_for_sampling?: number;
+  /**
+   * The softmax temperature when picking the programs new candidates are derived from.
+   */
+  temperature_for_candidates?: number;
+}
+
+/**
+ * SIMBA (Stochastic Introspective Mini-Batch Ascent) improves a program from the examples it is
+ * least consistent on, matching dspy.SIMBA.
+ *
+ * At each step, SIMBA runs the best programs so far on a mini-batch, each example once per
+ * temperature (with copies of the LM), and sorts the examples by how much their scores vary.
+ * For the most variable examples, a new candidate is derived from a good program by either
+ * appending the best trajectory as demos, or asking the prompt model to contrast the best and
+ * worst trajectories and append the advice to the predictors' instructions. The candidates are
+ * scored on the mini-batch, and the best of each step is kept. Finally, the kept programs are
+ * scored on the trainset and the best one is returned.
+ *
+ * It works with any program, through its `named_predictors()`.
+ *
+ * @example
+ * ```ts
+ * const optimizer = new SIMBA({ metric: answer_exact_match, bsize: 16, max_steps: 8 });
+ * const compiled = await optimizer.compile(program, { trainset });
+ * compiled.trial_logs; // the scores of each step
+ * ```
+ */
+export class SIMBA extends Teleprompter {
+  public metric: Metric;
+  public bsize: number;
+  public num_candidates: number;
+  public max_steps: number;
+  public max_demos: number;
+  public prompt_model: LM | null;
+  public demo_input_field_maxlen: number;
+  public num_threads: number;
+  public temperature_for_sampling: number;
+  public temperature_for_candidates: number;
+  public strategies: SIMBAStrategy[];
+  /**
+   * The unparseable responses of the prompt model in the last compile, whose candidates were
+   * skipped. Other errors of a strategy are thrown.
+   */
+  public errors: AdapterParseError[] = [];
+
+  constructor({
+    metric,
+    bsize = 32,
+    num_candidates = 6,
+    max_steps = 8,
+    max_demos = 4,
+    prompt_model = null,
+    demo_input_field_maxlen = 100_000,
+    num_threads = 1,
+    temperature_for_sampling = 0.2,
+    temperature_for_candidates = 0.2,
+  }: SIMBAOptions) {
+    super();
+    this.metric = metric;
+    this.bsize = bsize;
+    this.num_candidates = num_candidates;
+    this.max_steps = max_steps;
+    this.max_demos = max_demos;
+    this.prompt_model = prompt_model;
+    this.demo_input_field_maxlen = demo_input_field_maxlen;
+    this.num_threads = num_threads;
+    this.temperature_for_sampling = temperature_for_sampling;
+    this.temperature_for_candidates = temperature_for_candidates;
+    this.strategies =
+      max_demos > 0
+        ? [append_a_demo(demo_input_field_maxlen), append_a_rule]
+        : [append_a_rule];
+  }
+
+  async compile<M extends Module<any>>(
+    student: M,
+    { trainset, seed = 0 }: CompileOptions & { seed?: number }
+  ): Promise<
+    M & {
+      candidate_programs: SIMBACandidate<M>[];
+      trial_logs: SIMBATrialLog[];
+    }
+  > {
+    if (trainset.length < this.bsize) {
+      throw new Error(
+        `Trainset too small: ${trainset.length} < bsize ${this.bsize}`
+      );
+    }
+
+    this.errors = [];
+    const rng = new Random(seed);
+    // The programs, and their mini-batch scores, by index
+    const programs: M[] = [student.deepcopy()];
+    const program_scores: number[][] = [[]];
+    // The best candidate of each step, after the student, with the step it won
+    const winning_programs: M[] = [programs[0]!];
+    const winning_steps: number[] = [-1];
+
+    const average_score = (idx: number) => mean(program_scores[idx]!);
+    const top_k_plus_baseline = (k: number) => {
+      const top_k = programs
+        .map((_, idx) => idx)
+        .sort((a, b) => average_score(b) - average_score(a))
+        .slice(0, k);
+      // Always keep the student in the running
+      if (!top_k.includes(0) && top_k.length > 0) {
+        top_k[top_k.length - 1] = 0;
+      }
+      return [...new Set(top_k)];
+    };
+    const softmax_sample = (idxs: number[], temperature: number) => {
+      const weights = idxs.map((idx) =>
+        Math.exp(average_score(idx) / temperature)
+      );
+      return weights.reduce((a, b) => a + b, 0) > 0
+        ? rng.choices(idxs, weights)[0]!
+        : rng.choice(idxs);
+    };
+
+    const data_indices = rng.shuffle(trainset.map((_, i) => i));
+    let instance_idx = 0;
+    const trial_logs: SIMBATrialLog[] = [];
+
+    for (let step = 0; step < this.max_steps; step++) {
+      // Get the next mini-batch, reshuffling the trainset once it runs out
+      if (instance_idx + this.bsize > trainset.length) {
+        rng.shuffle(data_indices);
+        instance_idx = 0;
+      }
+      const batch = data_indices
+        .slice(instance_idx, instance_idx + this.bsize)
+        .map((i) => trainset[i]!);
+      instance_idx += this.bsize;
+
+      // Sample a trajectory per example and temperature, from programs picked by score
+      const models = this.prepare_models_for_resampling(programs[0]!);
+      const top_programs = top_k_plus_baseline(this.num_candidates);
+      const predictor2name = new Map<Module<any>, string>();
+      const exec_pairs: [Module<any>, Example<any>][] = [];
+      for (const model of models) {
+        for (const example of batch) {
+          const idx = softmax_sample(
+            top_programs,
+            this.temperature_for_sampling
+          );
+          const candidate_system = programs[idx]!.deepcopy();
+          for (const {
+            name,
+            predictor,
+          } of candidate_system.named_predictors()) {
+            predictor.setLM(model);
+            predictor2name.set(predictor, name);
+          }
+          exec_pairs.push([candidate_system, example]);
+        }
+      }
+      const outputs = await this.run_parallel(exec_pairs);
+      const batch_scores = outputs.map(({ score }) => score);
+      const batch_10p_score = percentile(batch_scores, 10);
+      const batch_90p_score = percentile(batch_scores, 90);
+
+      // Sort the examples by the gap between their best and worst scores, then the best score,
+      // then the gap between the best and average scores
+      const buckets = batch
+        .map((_, i) => {
+          const bucket = outputs
+            .filter((_, j) => j % batch.length === i)
+            .sort((a, b) => b.score - a.score);
+          const max_score = bucket[0]!.score;
+          const min_score = bucket.at(-1)!.score;
+          const avg_score = mean(bucket.map(({ score }) => score));
+          return {
+            bucket,
+            stats: [max_score - min_score, max_score, max_score - avg_score],
+          };
+        })
+        .sort((a, b) => compare_stats(b.stats, a.stats));
+
+      // Derive a candidate from a good program for each bucket, with a random strategy
+      const system_candidates: M[] = [];
+      for (const { bucket } of buckets) {
+        const src_idx = softmax_sample(
+          top_k_plus_baseline(this.num_candidates),
+          this.temperature_for_candidates
+        );
+        const system_candidate = programs[src_idx]!.deepcopy();
+
+        // Drop some demos, more when the predictors have many
+        const name2predictor = new Map<string, Predict<any>>(
+          system_candidate
+            .named_predictors()
+            .map(({ name, predictor }) => [name, predictor])
+        );
+        const num_demos = Math.max(
+          0,
+          ...[...name2predictor.values()].map(({ demos }) => demos.length)
+        );
+        const max_demos = this.max_demos > 0 ? this.max_demos : 3;
+        const num_demos_to_drop = Math.min(
+          Math.max(
+            rng.poisson(num_demos / max_demos),
+            Number(num_demos >= max_demos)
+          ),
+          num_demos
+        );
+        const demos_to_drop = new Set(
+          Array.from({ length: num_demos_to_drop }, () =>
+            rng.randint(0, num_demos - 1)
+          )
+        );
+        for (const predictor of name2predictor.values()) {
+          predictor.demos = predictor.demos.filter(
+            (_, i) => !demos_to_drop.has(i)
+          );
+        }
+
+        const strategy = rng.choice(this.strategies);
+        try {
+          await strategy(bucket, system_candidate, {
+            predictor2name,
+            name2predictor,
+            batch_10p_score,
+            batch_90p_score,
+            prompt_model: this.prompt_model,
+          });
+        } catch (e) {
+          if (!(e instanceof AdapterParseError)) throw e;
+          this.errors.push(e);
+          continue;
+        }
+
+        system_candidates.push(system_candidate);
+        if (system_candidates.length >= this.num_candidates + 1) break;
+      }
+
+      // Score the new candidates on the same mini-batch, and keep the best
+      const candidate_outputs = await this.run_parallel(
+        system_candidates.flatMap((system) =>
+          batch.map((example): [Module<any>, Example<any>] => [system, example])
+        )
+      );
+      const candidate_scores: number[] = [];
+      system_candidates.forEach((system, i) => {
+        const scores = candidate_outputs
+          .slice(i * batch.length, (i + 1) * batch.length)
+          .map(({ score }) => score);
+        candidate_scores.push(mean(scores));
+        programs.push(system);
+        program_scores.push(scores);
+      });
+      if (candidate_scores.length > 0) {
+        const best = candidate_scores.indexOf(Math.max(...candidate_scores));
+        winning_programs.push(system_candidates[best]!.deepcopy());
+        winning_steps.push(step);
+      }
+
+      trial_logs.push({ batch_scores, candidate_scores });
+    }
+
+    // Score evenly spaced winning programs (including the student) on the trainset
+    const M = winning_programs.length - 1;
+    const N = this.num_candidates + 1;
+    const program_idxs = [
+      ...new Set(
+        Array.from({ length: N }, (_, i) =>
+          M < 1 ? 0 : Math.round((i * M) / (N - 1))
+        )
+      ),
+    ];
+    const candidate_programs = program_idxs.map((i) =>
+      winning_programs[i]!.deepcopy()
+    );
+    const final_outputs = await this.run_parallel(
+      candidate_programs.flatMap((program) =>
+        trainset.map((example): [Module<any>, Example<any>] => [
+          program,
+          example,
+        ])
+      )
+    );
+    const scores = candidate_programs.map((_, i) =>
+      mean(
+        final_outputs
+          .slice(i * trainset.length, (i + 1) * trainset.length)
+          .map(({ score }) => score)
+      )
+    );
+    program_idxs.forEach((winning_idx, i) => {
+      const step = winning_steps[winning_idx]!;
+      if (step >= 0) {
+        trial_logs[step]!.train_score = scores[i]!;
+      }
+    });
+
+    const candidates = candidate_programs
+      .map((program, i) => ({ score: scores[i]!, program }))
+      .sort((a, b) => b.score - a.score);
+    const best_program = candidates[0]!.program.deepcopy();
+    best_program._compiled = true;
+    return Object.assign(best_program, {
+      candidate_programs: candidates,
+      trial_logs,
+    });
+  }
+
+  /**
+   * Returns copies of the program's LM at `num_candidates` temperatures: its own, then
+   * increasing ones from 0.5.
+   *
+   * NOTE: aligned with dspy [x]
+   */
+  private prepare_models_for_resampling(program: Module<any>): LM[] {
+    const lm = program.named_predictors()[0]?.predictor.lm ?? settings.lm;
+    if (!lm) {
+      throw new Error("LM not set");
+    }
+    const n = this.num_candidates;
+    const temperatures = [
+      ...new Set([
+        lm.config.temperature ?? 0,
+        ...Array.from({ length: n }, (_, i) => 0.5 + i * (0.5 / n)),
+      ]),
+    ].slice(0, n);
+    return temperatures.map((temperature) =>
+      lm.copy({ config: { temperature } })
+    );
+  }
+
+  private async run_parallel(
+    exec_pairs: [Module<any>, Example<any>][]
+  ): Promise<SIMBATrajectory[]> {
+    const executor = new ParallelExecutor({ num_threads: this.num_threads });
+    const outputs = await executor.execute(
+      ([program, example]) => run_and_score(program, this.metric, example),
+      exec_pairs
+    );
+    return outputs as SIMBATrajectory[];
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * The percentile of the values, interpolated linearly like numpy.percentile.
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = ((sorted.length - 1) * p) / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return (
+    sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower)
+  );
+}
+
+function compare_stats(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return 0;
+}
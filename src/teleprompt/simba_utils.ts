@@ -0,0 +1,325 @@
+import { z } from "zod";
+import {
+  traceStorage,
+  type DSTsTrace,
+  type Module,
+} from "../primitives/module";
+import type { Prediction } from "../primitives/prediction";
+import { Example } from "../primitives/example";
+import { Signature } from "../signatures/signature";
+import { Predict } from "../predict/predict";
+import type { LM } from "../clients/lm";
+import type { Metric } from "../evaluate/evaluate";
+
+/**
+ * A run of a program on an example, as sampled by SIMBA.
+ */
+export interface SIMBATrajectory {
+  example: Example<any>;
+  prediction: Prediction<any, any> | null;
+  trace: DSTsTrace;
+  score: number;
+}
+
+/**
+ * What a SIMBA strategy is given besides the bucket and the candidate program.
+ */
+export interface SIMBAStrategyContext {
+  /**
+   * The names of the predictors of every sampled program, by predictor.
+   */
+  predictor2name: Map<Module<any>, string>;
+  /**
+   * The predictors of the candidate program, by name.
+   */
+  name2predictor: Map<string, Predict<any>>;
+  batch_10p_score: number;
+  batch_90p_score: number;
+  prompt_model: LM | null;
+}
+
+/**
+ * Improves a candidate program given the trajectories of a bucket, best first. Returns whether
+ * the candidate was changed.
+ */
+export type SIMBAStrategy = (
+  bucket: SIMBATrajectory[],
+  system: Module<any>,
+  context: SIMBAStrategyContext
+) => Promise<boolean>;
+
+/**
+ * Runs the program on the example with tracing and scores it. Failed runs get a score of 0.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export async function run_and_score(
+  program: Module<any>,
+  metric: Metric,
+  example: Example<any>
+): Promise<SIMBATrajectory> {
+  const trace: DSTsTrace = [];
+  let prediction: Prediction<any, any> | null = null;
+  let score = 0;
+  try {
+    prediction = await traceStorage.run(trace, () =>
+      program.run(example.inputs())
+    );
+    score = Number(await metric(example, prediction, trace));
+  } catch {
+    // Keep the partial trace, scored 0
+  }
+  return { example, prediction, trace, score };
+}
+
+/**
+ * Appends the trace of the best trajectory of the bucket as a demo of each predictor, unless
+ * it scored in the bottom 10% of the batch. Input values longer than `demo_input_field_maxlen`
+ * are truncated.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function append_a_demo(demo_input_field_maxlen: number): SIMBAStrategy {
+  return async (
+    bucket,
+    _system,
+    { predictor2name, name2predictor, batch_10p_score }
+  ) => {
+    const good = bucket[0]!;
+    if (good.score <= batch_10p_score) {
+      return false;
+    }
+
+    // Keep the last call of each predictor
+    const name2demo = new Map<string, Example<any>>();
+    for (const { instance, example: inputs, prediction } of good.trace) {
+      const name = predictor2name.get(instance);
+      if (name === undefined) continue;
+
+      const truncated = Object.fromEntries(
+        Object.entries({ ...inputs }).map(([key, value]) => {
+          const text = String(value);
+          return [
+            key,
+            demo_input_field_maxlen && text.length > demo_input_field_maxlen
+              ? `${text.slice(
+                  0,
+                  demo_input_field_maxlen
+                )}\n\t\t... <TRUNCATED FOR BREVITY>`
+              : value,
+          ];
+        })
+      );
+      name2demo.set(
+        name,
+        new Example({
+          augmented: true,
+          ...truncated,
+          ...outputs_of(prediction),
+        })
+      );
+    }
+
+    for (const [name, demo] of name2demo) {
+      const predictor = name2predictor.get(name);
+      if (predictor) predictor.demos = [...predictor.demos, demo];
+    }
+    return true;
+  };
+}
+
+/**
+ * NOTE: aligned with dspy [x]
+ */
+export const OfferFeedback = new Signature({
+  instructions:
+    "You will be given two trajectories of an LLM-driven program's execution. Your goal is to help the program's modules build up experience on how to maximize the reward value assigned to the program's outputs if it were to receive similar inputs in the future.\n\n" +
+    "The module won't see its own history. It will rely on your advice balancing being concrete and being generalizable.\n\n" +
+    "In your advice:\n" +
+    "- Avoid boilerplate. Offer advice that would change the module's behavior for the better in the future.\n" +
+    "- Ensure that advice offered to a module M is specific to that M's specific sub-task, not the overall program.\n" +
+    "- Rely on contrasting the behavior of the worse trajectory against the better trajectory in making recommendations.\n" +
+    "- Ensure each unique module name appears exactly once as a key in the advice dictionary.",
+  input: z.object({
+    program_code: z
+      .string()
+      .describe("The code of the program that we are analyzing"),
+    modules_defn: z
+      .string()
+      .describe(
+        "The definition of each module in the program, including its I/O"
+      ),
+    program_inputs: z
+      .string()
+      .describe("The inputs to the program that we are analyzing"),
+    oracle_metadata: z
+      .string()
+      .describe(
+        "Any (hidden) metadata about the training set instance we're analyzing"
+      ),
+    worse_program_trajectory: z
+      .string()
+      .describe(
+        "The trajectory of the program's execution, showing each module's I/O"
+      ),
+    worse_program_outputs: z
+      .string()
+      .describe("The outputs of the program that we are analyzing"),
+    worse_reward_value: z
+      .string()
+      .describe("The reward value assigned to the program's outputs"),
+    better_program_trajectory: z
+      .string()
+      .describe(
+        "The trajectory of the program's execution, showing each module's I/O"
+      ),
+    better_program_outputs: z
+      .string()
+      .describe("The outputs of the program that we are analyzing"),
+    better_reward_value: z
+      .string()
+      .describe("The reward value assigned to the program's outputs"),
+    module_names: z
+      .array(z.string())
+      .describe(
+        "The names of the modules in the program, for which we seek advice"
+      ),
+  }),
+  output: z.object({
+    discussion: z
+      .string()
+      .describe("Discussing blame of where each module went wrong, if it did"),
+    module_advice: z
+      .record(z.string(), z.string())
+      .describe(
+        "For each module, describe very concretely, in this order: the specific scenarios in which it has made " +
+          "mistakes in the past and what each mistake was, followed by what it should do differently in that kind of " +
+          "scenario in the future. If the module is correct or not applicable, you should just give its name and " +
+          "advice as 'N/A'."
+      ),
+  }),
+});
+
+/**
+ * Asks the prompt model to contrast the best and worst trajectories of the bucket, and appends
+ * its advice to the instructions of each predictor. Skipped unless the best trajectory is above
+ * the batch's 10th percentile and the worst below its 90th.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export const append_a_rule: SIMBAStrategy = async (
+  bucket,
+  system,
+  { predictor2name, batch_10p_score, batch_90p_score, prompt_model }
+) => {
+  const good: TrajectoryView = { ...bucket[0]! };
+  const bad: TrajectoryView = { ...bucket.at(-1)! };
+  const example = good.example;
+  const good_score = bucket[0]!.score;
+  const bad_score = bucket.at(-1)!.score;
+
+  if (good_score <= batch_10p_score || bad_score >= batch_90p_score) {
+    return false;
+  }
+
+  // With equal scores, only the trajectory on the side of the batch it belongs to is shown
+  if (good_score <= bad_score) {
+    const hidden = good_score > batch_90p_score ? bad : good;
+    hidden.trace = [];
+    hidden.score = "N/A";
+    hidden.prediction = { "N/A": "Prediction not available" };
+  }
+
+  const trajectory = (trace: DSTsTrace) =>
+    trace
+      .filter(({ instance }) => predictor2name.has(instance))
+      .map(({ instance, example: inputs, prediction }) => ({
+        module_name: predictor2name.get(instance)!,
+        inputs: { ...inputs },
+        outputs: outputs_of(prediction),
+      }));
+  const dump = (value: unknown) =>
+    typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+  const module_names = system.named_predictors().map(({ name }) => name);
+  const advice_program = new Predict(OfferFeedback);
+  if (prompt_model) advice_program.setLM(prompt_model);
+
+  const { module_advice } = await advice_program.run({
+    program_code: system.constructor.toString(),
+    modules_defn: inspect_modules(system),
+    program_inputs: dump(example.inputs().toDict()),
+    oracle_metadata: dump(example.labels().toDict()),
+    better_program_trajectory: dump(trajectory(good.trace)),
+    better_program_outputs: dump(outputs_of(good.prediction)),
+    worse_program_trajectory: dump(trajectory(bad.trace)),
+    worse_program_outputs: dump(outputs_of(bad.prediction)),
+    worse_reward_value: String(bad.score),
+    better_reward_value: String(good.score),
+    module_names,
+  });
+
+  for (const { name, predictor } of system.named_predictors()) {
+    const advice = (module_advice as Record<string, string>)[name];
+    if (advice !== undefined) {
+      predictor.signature = predictor.signature.withInstructions(
+        `${predictor.signature.instructions ?? ""}\n\n${advice}`
+      );
+    }
+  }
+  return true;
+};
+
+/**
+ * Describes the inputs, outputs and instructions of each predictor of the program.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export function inspect_modules(program: Module<any>): string {
+  const separator = "-".repeat(80);
+  const indent = "\n\t\t";
+  const describe_fields = (fields: Record<string, z.ZodType>) =>
+    Object.entries(fields)
+      .map(([name, field]) => `${indent}${name}: ${field.description ?? ""}`)
+      .join("");
+
+  const output = [separator];
+  for (const { name, predictor } of program.named_predictors()) {
+    const signature = predictor.signature;
+    const instructions = (signature.instructions ?? "")
+      .split("\n")
+      .map((line: string) => `${indent}${line}`)
+      .join("");
+    output.push(
+      `Module ${name}`,
+      "\n\tInput Fields:",
+      describe_fields(signature.input_fields),
+      "\tOutput Fields:",
+      describe_fields(signature.output_fields),
+      `\tOriginal Instructions: ${instructions}`,
+      separator
+    );
+  }
+  return output.map((line) => line.replace(/^\n+|\n+$/g, "")).join("\n");
+}
+
+/**
+ * A trajectory whose score and prediction may be hidden from the prompt model.
+ */
+interface TrajectoryView {
+  example: Example<any>;
+  prediction: Record<string, any> | null;
+  trace: DSTsTrace;
+  score: number | "N/A";
+}
+
+/**
+ * The output fields of a prediction, without its LM result.
+ */
+function outputs_of(
+  prediction: Record<string, any> | null
+): Record<string, any> {
+  if (!prediction) return {};
+  const { _result, ...outputs } = prediction;
+  return outputs;
+}
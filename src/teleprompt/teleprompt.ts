@@ -0,0 +1,23 @@
+import type { Module } from "../primitives/module";
+import type { Example } from "../primitives/example";
+
+/**
+ * Options shared by every optimizer's `compile`.
+ */
+export interface CompileOptions {
+  trainset: Example<any>[];
+  teacher?: Module<any> | null;
+  valset?: Example<any>[] | null;
+}
+
+/**
+ * Base class of the optimizers, matching dspy.teleprompt.Teleprompter.
+ *
+ * `compile` never modifies the student: it returns an optimized copy of it.
+ */
+export abstract class Teleprompter {
+  abstract compile<M extends Module<any>>(
+    student: M,
+    options: CompileOptions
+  ): Promise<M>;
+}
@@ -0,0 +1,95 @@
+import type { Module } from "../primitives/module";
+import type { Example, ExampleData } from "../primitives/example";
+import type { Metric } from "../evaluate/evaluate";
+import { Random } from "../utils/random";
+import { LabeledFewShot } from "./vanilla";
+import { BootstrapFewShot } from "./bootstrap";
+
+/**
+ * Compiles `num_candidate_sets` programs as BootstrapFewShotWithRandomSearch does (zero-shot,
+ * labeled-only, unshuffled and shuffled BootstrapFewShot) and returns the demos of each
+ * predictor in each of them, indexed by the position of the predictor in `named_predictors()`.
+ *
+ * NOTE: aligned with dspy [x]
+ */
+export async function create_n_fewshot_demo_sets(
+  student: Module<any>,
+  num_candidate_sets: number,
+  {
+    trainset,
+    max_labeled_demos,
+    max_bootstrapped_demos,
+    metric,
+    metric_threshold = null,
+    max_errors = 10,
+    max_rounds = 1,
+    labeled_sample = true,
+    min_num_samples = 1,
+    teacher = null,
+    include_non_bootstrapped = true,
+    seed = 0,
+    rng = new Random(seed),
+  }: {
+    trainset: Example<any>[];
+    max_labeled_demos: number;
+    max_bootstrapped_demos: number;
+    metric: Metric;
+    metric_threshold?: number | null;
+    max_errors?: number;
+    max_rounds?: number;
+    labeled_sample?: boolean;
+    min_num_samples?: number;
+    teacher?: Module<any> | null;
+    include_non_bootstrapped?: boolean;
+    seed?: number;
+    rng?: Random;
+  }
+): Promise<ExampleData<any>[][][]> {
+  const demo_candidates: ExampleData<any>[][][] = student
+    .named_predictors()
+    .map(() => []);
+
+  for (let set_seed = -3; set_seed < num_candidate_sets - 3; set_seed++) {
+    const trainset_copy = [...trainset];
+    let program: Module<any>;
+
+    if (set_seed === -3 && include_non_bootstrapped) {
+      program = student.reset_copy();
+    } else if (
+      set_seed === -2 &&
+      max_labeled_demos > 0 &&
+      include_non_bootstrapped
+    ) {
+      program = await new LabeledFewShot(max_labeled_demos).compile(student, {
+        trainset: trainset_copy,
+        sample: labeled_sample,
+      });
+    } else if (set_seed === -1) {
+      program = await new BootstrapFewShot({
+        metric,
+        metric_threshold,
+        max_bootstrapped_demos,
+        max_labeled_demos,
+        max_rounds,
+        max_errors,
+      }).compile(student, { trainset: trainset_copy, teacher });
+    } else {
+      rng.shuffle(trainset_copy);
+      const size = rng.randint(min_num_samples, max_bootstrapped_demos);
+      program = await new BootstrapFewShot({
+        metric,
+        metric_threshold,
+        max_bootstrapped_demos: size,
+        max_labeled_demos,
+        max_rounds,
+        max_errors,
+      }).compile(student, { trainset: trainset_copy, teacher });
+    }
+
+    program.named_predictors().forEach(({ predictor }, i) => {
+      demo_candidates[i]!.push(predictor.demos);
+    });
+  }
+
+  return demo_candidates;
+}
@@ -0,0 +1,40 @@
+import type { Module } from "../primitives/module";
+import { Random } from "../utils/random";
+import { Teleprompter, type CompileOptions } from "./teleprompt";
+
+/**
+ * LabeledFewShot uses examples of the trainset as the demos of every predictor,
+ * matching dspy.LabeledFewShot.
+ *
+ * @param k - The number of demos of each predictor.
+ */
+export class LabeledFewShot extends Teleprompter {
+  public k: number;
+
+  constructor(k: number = 16) {
+    super();
+    this.k = k;
+  }
+
+  /**
+   * @param options.sample - Whether to sample the demos (with a fixed seed) or take the first `k` examples.
+   */
+  async compile<M extends Module<any>>(
+    student: M,
+    { trainset, sample = true }: CompileOptions & { sample?: boolean }
+  ): Promise<M> {
+    const compiled = student.reset_copy();
+    compiled._compiled = true;
+    if (trainset.length === 0) {
+      return compiled;
+    }
+
+    const rng = new Random(0);
+    const k = Math.min(this.k, trainset.length);
+    for (const { predictor } of compiled.named_predictors()) {
+      predictor.demos = sample ? rng.sample(trainset, k) : trainset.slice(0, k);
+    }
+
+    return compiled;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * ParallelExecutor runs an async function over a list of items with bounded concurrency,
+ * matching dspy.utils.parallelizer.ParallelExecutor.
+ *
+ * Items whose call throws get a `null` result. Once `max_errors` calls have failed, no new
+ * items are started and `execute` throws.
+ *
+ * @param options.num_threads - The maximum number of calls running at the same time.
+ * @param options.max_errors - The number of failed calls after which the execution is cancelled.
+ * @param options.on_result - Called after each item, in completion order.
+ */
+export class ParallelExecutor {
+  public num_threads: number;
+  public max_errors: number;
+  public on_result?: (index: number, result: unknown, error?: unknown) => void;
+
+  constructor({
+    num_threads = 1,
+    max_errors = 10,
+    on_result,
+  }: {
+    num_threads?: number;
+    max_errors?: number;
+    on_result?: (index: number, result: unknown, error?: unknown) => void;
+  } = {}) {
+    this.num_threads = Math.max(1, num_threads);
+    this.max_errors = max_errors;
+    this.on_result = on_result;
+  }
+
+  async execute<T, R>(
+    fn: (item: T, index: number) => Promise<R>,
+    data: T[]
+  ): Promise<(R | null)[]> {
+    const results: (R | null)[] = new Array(data.length).fill(null);
+    const errors: unknown[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < data.length && errors.length < this.max_errors) {
+        const index = next++;
+        try {
+          results[index] = await fn(data[index]!, index);
+          this.on_result?.(index, results[index]);
+        } catch (e) {
+          errors.push(e);
+          this.on_result?.(index, null, e);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.num_threads, data.length) }, worker)
+    );
+
+    if (errors.length >= this.max_errors) {
+      throw new Error(
+        `Execution cancelled after ${errors.length} errors. Last error: ${
+          errors.at(-1) instanceof Error
+            ? (errors.at(-1) as Error).message
+            : String(errors.at(-1))
+        }`,
+        { cause: errors.at(-1) }
+      );
+    }
+
+    return results;
+  }
+}
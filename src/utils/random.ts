@@ -0,0 +1,103 @@
+/**
+ * A seeded pseudo-random number generator, so optimizers make the same choices on every run
+ * given the same seed (like Python's random.Random used by DSPy).
+ *
+ * It uses mulberry32, so the sequences differ from Python's for the same seed.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number = 0) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Returns a float in [0, 1).
+   */
+  random(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer in [min, max], both included.
+   */
+  randint(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  /**
+   * Returns a float in [min, max).
+   */
+  uniform(min: number, max: number): number {
+    return min + this.random() * (max - min);
+  }
+
+  /**
+   * Returns a random item of a non-empty array.
+   */
+  choice<T>(items: T[]): T {
+    if (items.length === 0) {
+      throw new Error("Cannot choose from an empty array");
+    }
+    return items[Math.floor(this.random() * items.length)]!;
+  }
+
+  /**
+   * Returns `k` items of a non-empty array, drawn with replacement with probabilities
+   * proportional to the weights.
+   */
+  choices<T>(items: T[], weights: number[], k: number = 1): T[] {
+    if (items.length === 0) {
+      throw new Error("Cannot choose from an empty array");
+    }
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return Array.from({ length: k }, () => {
+      let r = this.random() * total;
+      for (let i = 0; i < items.length; i++) {
+        r -= weights[i]!;
+        if (r < 0) return items[i]!;
+      }
+      return items.at(-1)!;
+    });
+  }
+
+  /**
+   * Returns a sample of a Poisson distribution with mean `lambda` (Knuth's method, for the
+   * small means optimizers use).
+   */
+  poisson(lambda: number): number {
+    const limit = Math.exp(-lambda);
+    let k = 0;
+    let p = this.random();
+    while (p > limit) {
+      k++;
+      p *= this.random();
+    }
+    return k;
+  }
+
+  /**
+   * Shuffles the array in place and returns it.
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [items[i], items[j]] = [items[j]!, items[i]!];
+    }
+    return items;
+  }
+
+  /**
+   * Returns k distinct items of the array, in random order.
+   */
+  sample<T>(items: T[], k: number): T[] {
+    if (k < 0 || k > items.length) {
+      throw new Error("Sample larger than population or is negative");
+    }
+    return this.shuffle([...items]).slice(0, k);
+  }
+}
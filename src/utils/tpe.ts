@@ -0,0 +1,112 @@
+import { Random } from "./random";
+
+/**
+ * A set of categorical parameters, each the index of one of its choices.
+ */
+export type TPEParams = Record<string, number>;
+
+/**
+ * A Tree-structured Parzen Estimator over categorical parameters, modeled on Optuna's
+ * univariate TPESampler (which DSPy's MIPROv2 uses). Scores are maximized.
+ *
+ * The first `n_startup_trials` samples are uniformly random. After that, trials are split into
+ * the best `gamma` and the rest; each parameter samples `n_ei_candidates` choices from the
+ * distribution of the best trials and keeps the one most likely under it relative to the rest.
+ */
+export class TPESampler {
+  public n_startup_trials: number;
+  public n_ei_candidates: number;
+  public prior_weight: number;
+  public trials: { params: TPEParams; score: number }[] = [];
+  private rng: Random;
+
+  constructor({
+    seed = 0,
+    n_startup_trials = 10,
+    n_ei_candidates = 24,
+    prior_weight = 1.0,
+  }: {
+    seed?: number;
+    n_startup_trials?: number;
+    n_ei_candidates?: number;
+    prior_weight?: number;
+  } = {}) {
+    this.rng = new Random(seed);
+    this.n_startup_trials = n_startup_trials;
+    this.n_ei_candidates = n_ei_candidates;
+    this.prior_weight = prior_weight;
+  }
+
+  /**
+   * Samples a value for each parameter, given its number of choices.
+   */
+  sample(space: Record<string, number>): TPEParams {
+    if (this.trials.length < this.n_startup_trials) {
+      return Object.fromEntries(
+        Object.entries(space).map(([name, n]) => [
+          name,
+          this.rng.randint(0, n - 1),
+        ])
+      );
+    }
+
+    const sorted = [...this.trials].sort((a, b) => b.score - a.score);
+    const n_below = Math.min(Math.ceil(0.1 * sorted.length), 25);
+    const below = sorted.slice(0, n_below);
+    const above = sorted.slice(n_below);
+
+    const params: TPEParams = {};
+    for (const [name, n] of Object.entries(space)) {
+      const l = this.categorical_weights(below, name, n);
+      const g = this.categorical_weights(above, name, n);
+
+      let best = 0;
+      let best_ratio = -Infinity;
+      for (let i = 0; i < this.n_ei_candidates; i++) {
+        const candidate = this.sample_weighted(l);
+        const ratio = Math.log(l[candidate]!) - Math.log(g[candidate]!);
+        if (ratio > best_ratio) {
+          best = candidate;
+          best_ratio = ratio;
+        }
+      }
+      params[name] = best;
+    }
+    return params;
+  }
+
+  /**
+   * Records the score of a set of parameters.
+   */
+  tell(params: TPEParams, score: number): void {
+    this.trials.push({ params, score });
+  }
+
+  /**
+   * The smoothed distribution of a parameter's choices over the given trials.
+   */
+  private categorical_weights(
+    trials: { params: TPEParams }[],
+    name: string,
+    n: number
+  ): number[] {
+    const counts = new Array<number>(n).fill(this.prior_weight / n);
+    for (const { params } of trials) {
+      const value = params[name];
+      if (value !== undefined && value < n) {
+        counts[value]! += 1;
+      }
+    }
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    return counts.map((c) => c / total);
+  }
+
+  private sample_weighted(weights: number[]): number {
+    let r = this.rng.random();
+    for (let i = 0; i < weights.length; i++) {
+      r -= weights[i]!;
+      if (r < 0) return i;
+    }
+    return weights.length - 1;
+  }
+}
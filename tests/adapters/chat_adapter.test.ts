@@ -1,8 +1,13 @@
 import { describe, expect, test } from "bun:test";
 import { z } from "zod";
+import { NoObjectGeneratedError } from "ai";
 import { ChatAdapter } from "../../src/adapters/chat_adapter";
 import { Signature } from "../../src/signatures/signature";
 import { MockLM } from "../test_utils";
+import {
+  AdapterParseError,
+  ContextWindowExceededError,
+} from "../../src/exceptions";
 import {
   Image,
   Audio,
@@ -166,6 +171,123 @@ describe("ChatAdapter", () => {
     });
   });
 
+  describe("format_finetune_data", () => {
+    const signature = Signature.parse("question: string -> answer: string");
+
+    test("ends with the formatted outputs", () => {
+      const { messages } = adapter.format_finetune_data(
+        signature,
+        [],
+        { question: "What is 2+2?" },
+        { answer: "4" }
+      );
+
+      expect(messages.map((m) => m.role)).toEqual([
+        "system",
+        "user",
+        "assistant",
+      ]);
+      expect(messages[2]!.content).toBe(
+        '[[ ## answer ## ]]\n"4"\n\n[[ ## completed ## ]]\n'
+      );
+    });
+
+    test("converts multimodal inputs to OpenAI content parts", () => {
+      const multimodal = new Signature({
+        input: z.object({ img: Image(), aud: Audio(), doc: File() }),
+        output: z.object({ answer: z.string() }),
+      });
+      const { messages } = adapter.format_finetune_data(
+        multimodal,
+        [],
+        {
+          img: "https://example.com/cat.png",
+          aud: new Uint8Array([1, 2, 3]),
+          doc: {
+            data: "ZmlsZQ==",
+            filename: "a.pdf",
+            mediaType: "application/pdf",
+          },
+        },
+        { answer: "A cat" }
+      );
+
+      const parts = messages[1]!.content as any[];
+      expect(parts.find((p) => p.type === "image_url")).toEqual({
+        type: "image_url",
+        image_url: { url: "https://example.com/cat.png" },
+      });
+      expect(parts.find((p) => p.type === "input_audio")).toEqual({
+        type: "input_audio",
+        input_audio: { data: "AQID", format: "mp3" },
+      });
+      expect(parts.find((p) => p.type === "file")).toEqual({
+        type: "file",
+        file: {
+          filename: "a.pdf",
+          file_data: "data:application/pdf;base64,ZmlsZQ==",
+        },
+      });
+    });
+
+    test("includes the tool calls made before answering", () => {
+      const { messages } = adapter.format_finetune_data(
+        signature,
+        [],
+        { question: "What's the weather in Paris?" },
+        { answer: "Sunny" },
+        [
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool-call",
+                toolCallId: "call_1",
+                toolName: "weather",
+                input: { city: "Paris" },
+              },
+            ],
+          },
+          {
+            role: "tool",
+            content: [
+              {
+                type: "tool-result",
+                toolCallId: "call_1",
+                toolName: "weather",
+                output: { type: "json", value: { weather: "sunny" } },
+              },
+            ],
+          },
+          { role: "assistant", content: [{ type: "text", text: "Sunny" }] },
+        ]
+      );
+
+      expect(messages.slice(2)).toEqual([
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "weather", arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          tool_call_id: "call_1",
+          content: '{"weather":"sunny"}',
+        },
+        {
+          role: "assistant",
+          content: '[[ ## answer ## ]]\n"Sunny"\n\n[[ ## completed ## ]]\n',
+        },
+      ]);
+    });
+  });
+
   describe("lifecycle and fallback", () => {
     test("successful lifecycle", async () => {
       const lm = new MockLM();
@@ -228,4 +350,153 @@ describe("ChatAdapter", () => {
       expect((result as any).output).toEqual({ answer: "Paris (via JSON)" });
     });
   });
+
+  describe("context window", () => {
+    test("does not fall back to JSONAdapter on context window overflow", async () => {
+      const lm = new MockLM();
+      lm.generateText = async (options: any) => {
+        lm.calls.push(options);
+        throw new ContextWindowExceededError("prompt is too long");
+      };
+
+      await expect(
+        adapter.run(lm, {}, Signature.parse("question -> answer"), [], {
+          question: "?",
+        })
+      ).rejects.toBeInstanceOf(ContextWindowExceededError);
+      expect(lm.calls).toHaveLength(1);
+    });
+  });
+
+  describe("retry", () => {
+    test("re-prompts with the bad completion and the parse error", async () => {
+      const lm = new MockLM([
+        "Paris",
+        "[[ ## answer ## ]]\nParis\n\n[[ ## completed ## ]]",
+      ]);
+      const retrying = new ChatAdapter(false, { retry: { max_attempts: 3 } });
+      const signature = Signature.parse("question -> answer");
+
+      const result = await retrying.run(lm, {}, signature, [], {
+        question: "What is the capital of France?",
+      });
+
+      expect(result.output).toEqual({ answer: "Paris" });
+      expect(lm.calls).toHaveLength(2);
+
+      const [assistant, feedback] = lm.calls[1].messages.slice(-2);
+      expect(assistant).toEqual({ role: "assistant", content: "Paris" });
+      expect(feedback.role).toBe("user");
+      expect(feedback.content).toContain(
+        "Your previous response could not be parsed."
+      );
+      expect(feedback.content).toContain("Expected output fields: answer");
+      expect(feedback.content).toContain("`[[ ## answer ## ]]`");
+    });
+
+    test("collects every failed attempt once exhausted", async () => {
+      const lm = new MockLM(["first", "second"]);
+      const retrying = new ChatAdapter(false, { retry: { max_attempts: 2 } });
+      const signature = Signature.parse("question -> answer");
+
+      const error = await retrying
+        .run(lm, {}, signature, [], { question: "?" })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(AdapterParseError);
+      expect(error.lm_response).toBe("second");
+      expect(
+        error.attempts.map((a: { lm_response: string }) => a.lm_response)
+      ).toEqual(["first", "second"]);
+      expect(lm.calls).toHaveLength(2);
+    });
+
+    test("falls back to JSONAdapter only after the retries", async () => {
+      const lm = new MockLM(["first", "second"]);
+      const retrying = new ChatAdapter(true, { retry: { max_attempts: 2 } });
+      const signature = Signature.parse("question -> answer");
+
+      const result = await retrying.run(lm, {}, signature, [], {
+        question: "?",
+      });
+
+      expect(lm.calls).toHaveLength(3);
+      expect(lm.calls[2].output).toBeDefined();
+      expect(result.output).toEqual({ answer: "dummy" });
+    });
+
+    test("keeps the retry policy in the JSONAdapter fallback", async () => {
+      const lm = new MockLM(["first", "second"]);
+      const generateText = lm.generateText.bind(lm);
+      let json_calls = 0;
+      lm.generateText = async (options: any) => {
+        if (options.output && json_calls++ === 0) {
+          lm.calls.push(options);
+          throw new NoObjectGeneratedError({
+            message: "No object generated: could not parse the response.",
+            text: "not JSON",
+            response: {} as any,
+            usage: {} as any,
+            finishReason: "stop",
+          });
+        }
+        return generateText(options);
+      };
+      const retrying = new ChatAdapter(true, { retry: { max_attempts: 2 } });
+      const signature = Signature.parse("question -> answer");
+
+      const result = await retrying.run(lm, {}, signature, [], {
+        question: "?",
+      });
+
+      expect(result.output).toEqual({ answer: "dummy" });
+      expect(lm.calls).toHaveLength(4);
+      const [assistant, feedback] = lm.calls[3].messages.slice(-2);
+      expect(assistant).toEqual({ role: "assistant", content: "not JSON" });
+      expect(feedback.content).toContain(
+        "Your previous response could not be parsed."
+      );
+    });
+
+    test("reports the attempts of both adapters when the fallback fails", async () => {
+      const lm = new MockLM(["first", "second"]);
+      const generateText = lm.generateText.bind(lm);
+      lm.generateText = async (options: any) => {
+        if (options.output) {
+          lm.calls.push(options);
+          throw new NoObjectGeneratedError({
+            message: "No object generated: could not parse the response.",
+            text: `not JSON ${lm.calls.length}`,
+            response: {} as any,
+            usage: {} as any,
+            finishReason: "stop",
+          });
+        }
+        return generateText(options);
+      };
+      const retrying = new ChatAdapter(true, { retry: { max_attempts: 2 } });
+      const signature = Signature.parse("question -> answer");
+
+      const error = await retrying
+        .run(lm, {}, signature, [], { question: "?" })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(AdapterParseError);
+      expect(error.adapter_name).toBe("JSONAdapter");
+      expect(lm.calls).toHaveLength(4);
+      expect(
+        (error as AdapterParseError).attempts.map((a) => a.lm_response)
+      ).toEqual(["first", "second", "not JSON 3", "not JSON 4"]);
+    });
+
+    test("does not retry by default", async () => {
+      const lm = new MockLM(["first"]);
+      const signature = Signature.parse("question -> answer");
+
+      await expect(
+        new ChatAdapter(false).run(lm, {}, signature, [], { question: "?" })
+      ).rejects.toBeInstanceOf(AdapterParseError);
+      expect(lm.calls).toHaveLength(1);
+    });
+  });
 });
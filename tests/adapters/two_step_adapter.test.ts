@@ -0,0 +1,223 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { TwoStepAdapter } from "../../src/adapters/two_step_adapter";
+import { Signature } from "../../src/signatures/signature";
+import { Predict } from "../../src/predict/predict";
+import { configure } from "../../src/settings";
+import { NoObjectGeneratedError } from "ai";
+import {
+  AdapterParseError,
+  ContextWindowExceededError,
+} from "../../src/exceptions";
+import { Image } from "../../src/adapters/types";
+import { MockLM } from "../test_utils";
+
+function usage(inputTokens: number, outputTokens: number) {
+  return {
+    inputTokens,
+    inputTokenDetails: {
+      noCacheTokens: inputTokens,
+      cacheReadTokens: undefined,
+      cacheWriteTokens: undefined,
+    },
+    outputTokens,
+    outputTokenDetails: {
+      textTokens: outputTokens,
+      reasoningTokens: undefined,
+    },
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+describe("TwoStepAdapter", () => {
+  describe("format", () => {
+    test("describes the task in natural language", () => {
+      const adapter = new TwoStepAdapter(new MockLM());
+      const signature = Signature.parse(
+        "question -> answer, confidence: number",
+        "Answer the question."
+      );
+      const messages = adapter.format(signature, [], {
+        question: "What is 2+2?",
+      });
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]!.content).toContain(
+        "You are a helpful assistant that can solve tasks based on user input."
+      );
+      expect(messages[0]!.content).toContain("1. `question` (string)");
+      expect(messages[0]!.content).toContain("2. `confidence` (number)");
+      expect(messages[0]!.content).toContain(
+        "Specific instructions: Answer the question."
+      );
+      expect(messages[0]!.content).not.toContain("[[ ##");
+      expect(messages[1]!.content).toBe("question: What is 2+2?");
+    });
+
+    test("formats demos without field markers", () => {
+      const adapter = new TwoStepAdapter(new MockLM());
+      const signature = Signature.parse("question -> answer");
+      const messages = adapter.format(
+        signature,
+        [{ question: "What is 1+1?", answer: "2" }],
+        { question: "What is 2+2?" }
+      );
+
+      expect(messages).toHaveLength(4);
+      expect(messages[1]!.content).toBe("question: What is 1+1?");
+      expect(messages[2]!.content).toBe("answer: 2");
+    });
+
+    test("splits custom types into content blocks", () => {
+      const adapter = new TwoStepAdapter(new MockLM());
+      const signature = new Signature({
+        input: z.object({ img: Image() }),
+        output: z.object({ answer: z.string() }),
+      });
+      const messages = adapter.format(signature, [], { img: "image-data" });
+      const content = messages[1]!.content as unknown as any[];
+
+      expect(Array.isArray(content)).toBe(true);
+      expect(content.find((c) => c.type === "image").image).toBe("image-data");
+    });
+  });
+
+  describe("run", () => {
+    test("extracts the outputs with the extraction model", async () => {
+      const lm = new MockLM(["The answer is 4, and I am quite sure."]);
+      const extraction_model = new MockLM();
+      extraction_model.generateText = async (options: any) => {
+        extraction_model.calls.push(options);
+        return {
+          text: '{"answer": "4", "confidence": 0.9}',
+          output: { answer: "4", confidence: 0.9 },
+          totalUsage: usage(20, 5),
+          steps: [{ text: '{"answer": "4", "confidence": 0.9}' }],
+        } as any;
+      };
+
+      const original = lm.generateText.bind(lm);
+      lm.generateText = async (options: any) => {
+        const result: any = await original(options);
+        return { ...result, totalUsage: usage(10, 30), steps: [{}] };
+      };
+
+      const adapter = new TwoStepAdapter(extraction_model);
+      const signature = Signature.parse(
+        "question -> answer, confidence: number"
+      );
+      const result = await adapter.run(lm, {}, signature, [], {
+        question: "What is 2+2?",
+      });
+
+      expect(result.output).toEqual({ answer: "4", confidence: 0.9 });
+      expect(result.text).toBe("The answer is 4, and I am quite sure.");
+      expect(result.totalUsage.inputTokens).toBe(30);
+      expect(result.totalUsage.outputTokens).toBe(35);
+      expect(result.totalUsage.totalTokens).toBe(65);
+      expect(result.steps).toHaveLength(2);
+
+      // The extraction model only sees the main LM's answer
+      const extractionMessages = extraction_model.calls[0].messages;
+      expect(extractionMessages.at(-1).content).toContain(
+        "The answer is 4, and I am quite sure."
+      );
+      expect(extraction_model.calls[0].output).toBeDefined();
+    });
+
+    test("wraps extraction failures in AdapterParseError", async () => {
+      const extraction_model = new MockLM();
+      extraction_model.generateText = async () => {
+        throw new NoObjectGeneratedError({
+          message: "No object generated: could not parse the response.",
+          text: "not JSON",
+          response: {} as any,
+          usage: usage(1, 1),
+          finishReason: "stop",
+        });
+      };
+      const adapter = new TwoStepAdapter(extraction_model);
+
+      await expect(
+        adapter.run(
+          new MockLM(),
+          {},
+          Signature.parse("question -> answer"),
+          [],
+          {
+            question: "?",
+          }
+        )
+      ).rejects.toBeInstanceOf(AdapterParseError);
+    });
+
+    test("retries the extraction with the retry policy", async () => {
+      const extraction_model = new MockLM();
+      const generateText = extraction_model.generateText.bind(extraction_model);
+      extraction_model.generateText = async (options: any) => {
+        if (extraction_model.calls.length === 0) {
+          extraction_model.calls.push(options);
+          throw new NoObjectGeneratedError({
+            message: "No object generated: could not parse the response.",
+            text: "not JSON",
+            response: {} as any,
+            usage: usage(1, 1),
+            finishReason: "stop",
+          });
+        }
+        return generateText(options);
+      };
+      const adapter = new TwoStepAdapter(extraction_model, {
+        retry: { max_attempts: 2 },
+      });
+
+      const result = await adapter.run(
+        new MockLM(),
+        {},
+        Signature.parse("question -> answer"),
+        [],
+        { question: "?" }
+      );
+
+      expect(result.output).toEqual({ answer: "dummy" });
+      expect(extraction_model.calls).toHaveLength(2);
+      expect(extraction_model.calls[1].messages.at(-2)).toEqual({
+        role: "assistant",
+        content: "not JSON",
+      });
+    });
+
+    test("rethrows other extraction errors unchanged", async () => {
+      const overflow = new ContextWindowExceededError(
+        "This model's maximum context length is 128000 tokens.",
+        "mock-model"
+      );
+      const extraction_model = new MockLM();
+      extraction_model.generateText = async () => {
+        throw overflow;
+      };
+      const adapter = new TwoStepAdapter(extraction_model);
+
+      await expect(
+        adapter.run(
+          new MockLM(),
+          {},
+          Signature.parse("question -> answer"),
+          [],
+          { question: "?" }
+        )
+      ).rejects.toBe(overflow);
+    });
+
+    test("works as the configured adapter of Predict", async () => {
+      configure({
+        lm: new MockLM(["Paris, of course."]),
+        adapter: new TwoStepAdapter(new MockLM()),
+      });
+      const predict = new Predict("question -> answer");
+      const result = await predict.run({ question: "Capital of France?" });
+
+      expect(result.answer).toBe("dummy");
+    });
+  });
+});
@@ -128,6 +128,13 @@ describe("parseValue and formatFieldValue", () => {
     expect(parseValue(schema, '{"a": 1}')).toEqual({ a: 1 });
   });
 
+  test("parseValue enum accepts bare and quoted values", () => {
+    const schema = z.enum(["search", "finish"]);
+    expect(parseValue(schema, " finish ")).toBe("finish");
+    expect(parseValue(schema, '"search"')).toBe("search");
+    expect(() => parseValue(schema, "lookup")).toThrow();
+  });
+
   test("parseValue errors", () => {
     expect(() => parseValue(z.number(), "not a number")).toThrow();
     expect(() =>
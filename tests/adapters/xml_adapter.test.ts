@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { XMLAdapter } from "../../src/adapters/xml_adapter";
+import { Signature } from "../../src/signatures/signature";
+import { AdapterParseError } from "../../src/exceptions";
+import { Image, File } from "../../src/adapters/types";
+import { MockLM } from "../test_utils";
+
+describe("XMLAdapter", () => {
+  const adapter = new XMLAdapter();
+
+  describe("format", () => {
+    test("basic formatting", () => {
+      const signature = Signature.parse(
+        "question: string -> answer: string",
+        "Answer the question."
+      );
+      const messages = adapter.format(signature, [], {
+        question: "What is 2+2?",
+      });
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]!.role).toBe("system");
+      expect(messages[0]!.content).toContain("Answer the question.");
+      expect(messages[0]!.content).toContain("<question>\n");
+      expect(messages[0]!.content).toContain("\n</answer>");
+      expect(messages[0]!.content).not.toContain("[[ ## completed ## ]]");
+
+      expect(messages[1]!.role).toBe("user");
+      expect(messages[1]!.content).toContain(
+        '<question>\n"What is 2+2?"\n</question>'
+      );
+      expect(messages[1]!.content).toContain(
+        "Respond with the corresponding output fields wrapped in XML tags `<answer>`."
+      );
+    });
+
+    test("formatting with few-shot demos", () => {
+      const signature = Signature.parse("question -> answer, confidence");
+      const demos = [
+        { question: "What is 1+1?", answer: "2", confidence: "high" },
+      ];
+      const messages = adapter.format(signature, demos, {
+        question: "What is 2+2?",
+      });
+
+      expect(messages).toHaveLength(4);
+      expect(messages[1]!.content).toContain(
+        '<question>\n"What is 1+1?"\n</question>'
+      );
+      expect(messages[2]!.role).toBe("assistant");
+      expect(messages[2]!.content).toBe(
+        '<answer>\n"2"\n</answer>\n\n<confidence>\n"high"\n</confidence>'
+      );
+      expect(messages[3]!.content).toContain("`<answer>`, then `<confidence>`");
+    });
+
+    test("splits custom types into content blocks", () => {
+      const signature = new Signature({
+        input: z.object({ img: Image(), doc: File() }),
+        output: z.object({ answer: z.string() }),
+      });
+
+      const messages = adapter.format(signature, [], {
+        img: "image-data",
+        doc: "file-data",
+      });
+      const content = messages[1]!.content as unknown as any[];
+
+      expect(Array.isArray(content)).toBe(true);
+      expect(content.find((c) => c.type === "image").image).toBe("image-data");
+      expect(content.find((c) => c.type === "file").data).toBe("file-data");
+      expect(
+        content.some((c) => c.type === "text" && c.text.includes("<img>"))
+      ).toBe(true);
+    });
+  });
+
+  describe("parse", () => {
+    test("parses tagged fields with the output schema", () => {
+      const signature = new Signature({
+        input: z.object({ question: z.string() }),
+        output: z.object({ answer: z.string(), score: z.number() }),
+      });
+      const completion =
+        "<answer>\nParis\nis the capital.\n</answer>\n<score>0.9</score>";
+
+      expect(adapter.parse(signature, completion)).toEqual({
+        answer: "Paris\nis the capital.",
+        score: 0.9,
+      });
+    });
+
+    test("keeps the first occurrence and ignores unknown tags", () => {
+      const signature = Signature.parse("question -> answer");
+      const completion =
+        "<thinking>hmm</thinking><answer>Paris</answer><answer>Lyon</answer>";
+
+      expect(adapter.parse(signature, completion)).toEqual({
+        answer: "Paris",
+      });
+    });
+
+    test("throws on missing or invalid fields", () => {
+      const signature = new Signature({
+        input: z.object({ question: z.string() }),
+        output: z.object({ answer: z.string(), score: z.number() }),
+      });
+
+      expect(() => adapter.parse(signature, "<answer>Paris</answer>")).toThrow(
+        AdapterParseError
+      );
+      expect(() =>
+        adapter.parse(signature, "<answer>Paris</answer><score>high</score>")
+      ).toThrow(AdapterParseError);
+    });
+
+    test("partial parsing includes the field being generated", () => {
+      const signature = Signature.parse("question -> answer, notes");
+
+      expect(adapter.parse(signature, "<answer>\nPar", true)).toEqual({
+        answer: "Par",
+      });
+      expect(adapter.parse(signature, "<answer>\nParis\n</ans", true)).toEqual({
+        answer: "Paris",
+      });
+      expect(
+        adapter.parse(signature, "<answer>Paris</answer>\n<notes>No", true)
+      ).toEqual({ answer: "Paris", notes: "No" });
+    });
+  });
+
+  describe("lifecycle", () => {
+    test("runs against the LM", async () => {
+      const lm = new MockLM(["<answer>\nParis\n</answer>"]);
+      const signature = Signature.parse("question -> answer");
+
+      const result = await adapter.run(lm, {}, signature, [], {
+        question: "What is the capital of France?",
+      });
+      expect(result.output).toEqual({ answer: "Paris" });
+    });
+  });
+});
@@ -1,6 +1,27 @@
 import { expect, test, describe } from "bun:test";
 import { LM } from "../../src/clients/lm";
 import { openai } from "@ai-sdk/openai";
+import { APICallError } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { ContextWindowExceededError } from "../../src/exceptions";
+
+function failingModel(message: string, responseBody?: string) {
+  const fail = async (): Promise<never> => {
+    throw new APICallError({
+      message,
+      url: "https://example.com/v1/chat/completions",
+      requestBodyValues: {},
+      statusCode: 400,
+      responseBody,
+      isRetryable: false,
+    });
+  };
+  return new MockLanguageModelV3({
+    modelId: "mock-model",
+    doGenerate: fail,
+    doStream: fail,
+  });
+}
 
 describe("LM", () => {
   const model = openai("gpt-4o-mini");
@@ -21,6 +42,25 @@ describe("LM", () => {
     } as any);
   });
 
+  test("copy should override the call settings", async () => {
+    const base = new LM(failingModel("Bad request"), undefined, {
+      temperature: 0,
+      maxOutputTokens: 10,
+    });
+    const hot = base.copy({ config: { temperature: 1 } });
+    expect(hot).toBeInstanceOf(LM);
+    expect(hot.config).toEqual({ temperature: 1, maxOutputTokens: 10 });
+    expect(base.config.temperature).toBe(0);
+
+    await hot.generateText({ prompt: "Hi", maxRetries: 0 }).catch(() => {});
+    await hot
+      .generateText({ prompt: "Hi", maxRetries: 0, temperature: 0.5 })
+      .catch(() => {});
+    const calls = (hot.model as MockLanguageModelV3).doGenerateCalls;
+    expect(calls.map((call) => call.temperature)).toEqual([1, 0.5]);
+    expect(calls[0]!.maxOutputTokens).toBe(10);
+  });
+
   test("generateText should work", async () => {
     if (!process.env.OPENAI_API_KEY) {
       console.warn(
@@ -55,4 +95,71 @@ describe("LM", () => {
 
     expect(fullText.toLowerCase()).toContain("hello");
   });
+
+  test("raises ContextWindowExceededError when the prompt is too long", async () => {
+    const overflowing = new LM(
+      failingModel(
+        "This model's maximum context length is 128000 tokens.",
+        '{"error": {"code": "context_length_exceeded"}}'
+      )
+    );
+
+    const error = await overflowing
+      .generateText({ prompt: "Say 'Hello'" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContextWindowExceededError);
+    expect(error.model).toBe("mock-model");
+    expect(APICallError.isInstance(error.cause)).toBe(true);
+  });
+
+  test("raises ContextWindowExceededError when a stream's prompt is too long", async () => {
+    const overflowing = new LM(
+      failingModel("This model's maximum context length is 128000 tokens.")
+    );
+
+    const result = await overflowing.streamText({
+      prompt: "Say 'Hello'",
+      maxRetries: 0,
+    });
+    const chunks: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of result.textStream) chunks.push(chunk);
+    })().catch((e) => e);
+
+    expect(chunks).toEqual([]);
+    expect(error).toBeInstanceOf(ContextWindowExceededError);
+    expect(error.model).toBe("mock-model");
+    await expect(Promise.resolve(result.text)).rejects.toBeInstanceOf(
+      ContextWindowExceededError
+    );
+  });
+
+  test("reports other stream errors to onError", async () => {
+    const failing = new LM(failingModel("Invalid API key"));
+    const errors: unknown[] = [];
+
+    const result = await failing.streamText({
+      prompt: "Say 'Hello'",
+      maxRetries: 0,
+      onError: ({ error }) => {
+        errors.push(error);
+      },
+    });
+    const error = await Promise.resolve(result.text).catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(ContextWindowExceededError);
+    expect(errors).toHaveLength(1);
+    expect(APICallError.isInstance(errors[0])).toBe(true);
+  });
+
+  test("rethrows other provider errors unchanged", async () => {
+    const failing = new LM(failingModel("Invalid API key"));
+
+    const error = await failing
+      .generateText({ prompt: "Say 'Hello'" })
+      .catch((e) => e);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import {
+  SemanticF1,
+  CompleteAndGrounded,
+} from "../../src/evaluate/auto_evaluation";
+import { Example } from "../../src/primitives/example";
+import { Prediction } from "../../src/primitives/prediction";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+const example = new Example({
+  question: "What is the capital of France?",
+  response: "Paris is the capital of France.",
+}).withInputs("question");
+
+const prediction = new Prediction({
+  response: "The capital of France is Paris, a city of 2 million people.",
+  context: ["Paris is the capital and largest city of France."],
+});
+
+describe("SemanticF1", () => {
+  let lm: MockLM;
+
+  beforeEach(() => {
+    lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("scores the F1 of the judged recall and precision", async () => {
+    lm.responses.push(
+      "[[ ## reasoning ## ]]\nBoth mention Paris.\n\n[[ ## recall ## ]]\n1.0\n\n" +
+        "[[ ## precision ## ]]\n0.5\n\n[[ ## completed ## ]]"
+    );
+    const metric = new SemanticF1();
+
+    expect(await metric.metric(example, prediction)).toBeCloseTo(2 / 3);
+
+    const messages = lm.calls[0].messages;
+    expect(messages[0].content).toContain(
+      "Compare a system's response to the ground truth"
+    );
+    expect(messages.at(-1).content).toContain(
+      '[[ ## ground_truth ## ]]\n"Paris is the capital of France."'
+    );
+  });
+
+  test("returns whether the score reaches the threshold when given a trace", async () => {
+    lm.responses.push(
+      "[[ ## reasoning ## ]]\n-\n\n[[ ## recall ## ]]\n1.0\n\n[[ ## precision ## ]]\n0.5\n\n[[ ## completed ## ]]",
+      "[[ ## reasoning ## ]]\n-\n\n[[ ## recall ## ]]\n1.0\n\n[[ ## precision ## ]]\n0.5\n\n[[ ## completed ## ]]"
+    );
+
+    expect(await new SemanticF1(0.6).metric(example, prediction, [])).toBe(
+      true
+    );
+    expect(await new SemanticF1(0.7).metric(example, prediction, [])).toBe(
+      false
+    );
+  });
+
+  test("the metric of a copy calls the copy's predictors", async () => {
+    const other = new MockLM([
+      "[[ ## reasoning ## ]]\n-\n\n[[ ## recall ## ]]\n1.0\n\n[[ ## precision ## ]]\n1.0\n\n[[ ## completed ## ]]",
+    ]);
+    const metric = new SemanticF1();
+    const copy = metric.deepcopy();
+    copy.module.predict.setLM(other);
+
+    expect(await copy.metric(example, prediction)).toBe(1);
+    expect(other.calls).toHaveLength(1);
+    expect(lm.calls).toHaveLength(0);
+  });
+
+  test("decompositional judges enumerate key ideas first", () => {
+    const metric = new SemanticF1(0.66, true);
+    expect(Object.keys(metric.module.predict.signature.output_fields)).toEqual([
+      "reasoning",
+      "ground_truth_key_ideas",
+      "system_response_key_ideas",
+      "discussion",
+      "recall",
+      "precision",
+    ]);
+    expect(metric.named_predictors().map((p) => p.name)).toEqual([
+      "module.predict",
+    ]);
+  });
+});
+
+describe("CompleteAndGrounded", () => {
+  test("scores the F1 of completeness and groundedness", async () => {
+    const lm = new MockLM([
+      "[[ ## reasoning ## ]]\n-\n\n[[ ## ground_truth_key_ideas ## ]]\n1. Paris\n\n" +
+        "[[ ## system_response_key_ideas ## ]]\n1. Paris\n2. Population\n\n" +
+        "[[ ## discussion ## ]]\nAll covered.\n\n[[ ## completeness ## ]]\n1.0\n\n[[ ## completed ## ]]",
+      "[[ ## reasoning ## ]]\n-\n\n[[ ## system_response_claims ## ]]\n1. Paris\n2. Population\n\n" +
+        "[[ ## discussion ## ]]\nPopulation is unsupported.\n\n[[ ## groundedness ## ]]\n0.5\n\n[[ ## completed ## ]]",
+    ]);
+    configure({ lm, adapter: new ChatAdapter(false) });
+
+    const metric = new CompleteAndGrounded();
+    expect(await metric.metric(example, prediction)).toBeCloseTo(2 / 3);
+    expect(lm.calls[1].messages.at(-1).content).toContain(
+      "Paris is the capital and largest city of France."
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Evaluate, type EvaluationProgress } from "../../src/evaluate/evaluate";
+import { Example } from "../../src/primitives/example";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+class Echo extends Module {
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    if (input.question === "fail") throw new Error("program failed");
+    return new Prediction({ answer: input.question.toUpperCase() });
+  }
+}
+
+const devset = ["a", "b", "c", "fail"].map((question) =>
+  new Example({
+    question,
+    answer: question === "c" ? "x" : question.toUpperCase(),
+  }).withInputs("question")
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("Evaluate", () => {
+  beforeEach(() => {
+    configure({ lm: new MockLM(), adapter: new ChatAdapter(false) });
+  });
+
+  test("scores the program as a percentage and keeps per-example results", async () => {
+    const evaluate = new Evaluate({
+      devset,
+      metric: exact_match,
+      num_threads: 2,
+    });
+    const result = await evaluate.run(new Echo());
+
+    expect(result.score).toBe(50);
+    expect(result.metric_name).toBe("exact_match");
+    expect(result.results.map((r) => r.score)).toEqual([1, 1, 0, 0]);
+    expect(result.results[0]!.prediction!.answer).toBe("A");
+    expect(result.results[3]!.prediction).toBeNull();
+    expect(result.results[3]!.error).toBe("program failed");
+  });
+
+  test("runs the program with the example inputs only", async () => {
+    const lm = new MockLM(["[[ ## answer ## ]]\nA\n\n[[ ## completed ## ]]"]);
+    configure({ lm });
+    const evaluate = new Evaluate({
+      devset: devset.slice(0, 1),
+      metric: exact_match,
+    });
+    const result = await evaluate.run(new Predict("question -> answer"));
+
+    expect(result.score).toBe(100);
+    expect(lm.calls[0].messages.at(-1).content).not.toContain('"A"');
+  });
+
+  test("uses the failure score and cancels after max_errors", async () => {
+    const failing = [...devset, ...devset].filter((e) => e.question === "fail");
+    const evaluate = new Evaluate({
+      devset: [devset[0]!, ...failing],
+      metric: exact_match,
+      max_errors: 2,
+      failure_score: 0.5,
+    });
+
+    expect(
+      (await evaluate.run(new Echo(), { devset: devset.slice(3) })).score
+    ).toBe(50);
+    await expect(evaluate.run(new Echo())).rejects.toThrow(
+      "Execution cancelled"
+    );
+  });
+
+  test("reports progress after each example", async () => {
+    const progress: EvaluationProgress[] = [];
+    const evaluate = new Evaluate({
+      devset,
+      metric: exact_match,
+      on_progress: (p) => progress.push(p),
+    });
+    await evaluate.run(new Echo());
+
+    expect(progress.map((p) => p.completed)).toEqual([1, 2, 3, 4]);
+    expect(progress.at(-1)).toEqual({
+      completed: 4,
+      total: 4,
+      errors: 1,
+      score: 50,
+    });
+    expect(progress[1]!.score).toBe(100);
+  });
+
+  test("renders table and JSON reports", async () => {
+    const evaluate = new Evaluate({
+      devset: devset.slice(2),
+      metric: exact_match,
+    });
+    const result = await evaluate.run(new Echo());
+
+    expect(result.toTable()).toBe(
+      [
+        "| question | answer | pred_answer | exact_match |",
+        "| --- | --- | --- | --- |",
+        "| c | x | C | 0 |",
+        "| fail | FAIL |  | 0 |",
+      ].join("\n")
+    );
+    expect(JSON.parse(JSON.stringify(result))).toEqual({
+      score: 0,
+      metric: "exact_match",
+      results: [
+        {
+          example: { question: "c", answer: "x" },
+          prediction: { answer: "C" },
+          score: 0,
+        },
+        {
+          example: { question: "fail", answer: "FAIL" },
+          prediction: null,
+          score: 0,
+          error: "program failed",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import {
+  normalize_text,
+  em_score,
+  f1_score,
+  EM,
+  F1,
+  passage_has_answers,
+  answer_exact_match,
+  answer_passage_match,
+} from "../../src/evaluate/metrics";
+import { Example } from "../../src/primitives/example";
+import { Prediction } from "../../src/primitives/prediction";
+
+describe("metrics", () => {
+  test("normalize_text lowercases and strips punctuation, articles and whitespace", () => {
+    expect(normalize_text("  The Eiffel   Tower, in Paris! ")).toBe(
+      "eiffel tower in paris"
+    );
+    expect(normalize_text("An apple a day")).toBe("apple day");
+  });
+
+  test("em_score and EM compare normalized answers", () => {
+    expect(em_score("The Paris.", "paris")).toBe(true);
+    expect(em_score("Paris, France", "Paris")).toBe(false);
+    expect(EM("paris", ["London", "Paris"])).toBe(true);
+    expect(EM("paris", ["London"])).toBe(false);
+  });
+
+  test("f1_score and F1 compute token-level overlap", () => {
+    expect(f1_score("Paris France", "Paris")).toBeCloseTo(2 / 3);
+    expect(f1_score("the the", "the")).toBe(0);
+    expect(f1_score("x b b", "b b c")).toBeCloseTo(2 / 3);
+    expect(F1("Paris France", ["London", "Paris France"])).toBe(1);
+    expect(F1("Paris", [])).toBe(0);
+  });
+
+  test("passage_has_answers matches whole token sequences", () => {
+    expect(
+      passage_has_answers("The capital of France is Paris.", ["paris"])
+    ).toBe(true);
+    expect(passage_has_answers("Parisian food is great.", ["Paris"])).toBe(
+      false
+    );
+    expect(
+      passage_has_answers("It was built in 1889 by Eiffel.", ["built in 1889"])
+    ).toBe(true);
+  });
+
+  test("answer_exact_match supports lists of answers and frac", () => {
+    const example = new Example({
+      question: "?",
+      answer: ["Paris", "City of Light"],
+    });
+    expect(
+      answer_exact_match(example, new Prediction({ answer: "paris" }))
+    ).toBe(true);
+    expect(
+      answer_exact_match(example, new Prediction({ answer: "Paris, France" }))
+    ).toBe(false);
+    expect(
+      answer_exact_match(
+        example,
+        new Prediction({ answer: "Paris, France" }),
+        undefined,
+        0.5
+      )
+    ).toBe(true);
+    expect(() =>
+      answer_exact_match(
+        new Example({ answer: 1 }),
+        new Prediction({ answer: "1" })
+      )
+    ).toThrow("Invalid answer type");
+  });
+
+  test("answer_passage_match looks for the answer in the retrieved context", () => {
+    const example = new Example({ question: "?", answer: "Paris" });
+    expect(
+      answer_passage_match(
+        example,
+        new Prediction({ context: ["London is big.", "Paris is the capital."] })
+      )
+    ).toBe(true);
+    expect(
+      answer_passage_match(
+        example,
+        new Prediction({ context: "Lyon is nice." })
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { majority } from "../../src/predict/aggregation";
+import { Prediction } from "../../src/primitives/prediction";
+
+const predictions = (...answers: (string | number)[]) =>
+  answers.map((answer) => new Prediction({ reasoning: "...", answer }));
+
+describe("majority", () => {
+  test("picks the first prediction with the most common normalized value", () => {
+    const votes = predictions(
+      "Paris",
+      "London",
+      "the paris!",
+      "London",
+      "PARIS"
+    );
+    const winner = majority(votes);
+
+    expect(winner).toBe(votes[0]!);
+    expect(winner.answer).toBe("Paris");
+  });
+
+  test("votes on the given field, with the given normalization", () => {
+    const votes = [
+      new Prediction({ answer: "a", confidence: "high" }),
+      new Prediction({ answer: "b", confidence: "High" }),
+      new Prediction({ answer: "c", confidence: "high" }),
+    ];
+
+    expect(majority(votes, { field: "confidence" })).toBe(votes[0]!);
+    expect(majority(votes, { field: "confidence", normalize: null })).toBe(
+      votes[0]!
+    );
+    expect(
+      majority(predictions(1, 2, 2), { normalize: (value) => value })
+    ).toMatchObject({ answer: 2 });
+  });
+
+  test("ignores empty values unless every value is empty", () => {
+    expect(majority(predictions("", "...", "Rome")).answer).toBe("Rome");
+    expect(majority(predictions("", "?")).answer).toBe("");
+  });
+
+  test("requires predictions", () => {
+    expect(() => majority([])).toThrow(
+      "Cannot take the majority of no predictions"
+    );
+  });
+});
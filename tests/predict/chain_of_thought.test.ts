@@ -0,0 +1,91 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import {
+  ChainOfThought,
+  REASONING_PREFIX,
+} from "../../src/predict/chain_of_thought";
+import { Predict } from "../../src/predict/predict";
+import { Module } from "../../src/primitives/module";
+import { Prediction } from "../../src/primitives/prediction";
+import { Signature } from "../../src/signatures/signature";
+import { configure } from "../../src/settings";
+import { MockLM } from "../test_utils";
+import { JSONAdapter } from "../../src/adapters/json_adapter";
+import { z } from "zod";
+
+class CypherProgram extends Module {
+  public generate_cypher = new ChainOfThought("question -> statement");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.generate_cypher.run(input);
+  }
+}
+
+describe("ChainOfThought", () => {
+  beforeEach(() => {
+    configure({
+      lm: new MockLM(),
+      adapter: new JSONAdapter(),
+    });
+  });
+
+  test("prepends a reasoning output field", () => {
+    const cot = new ChainOfThought("question -> answer");
+    const signature = cot.predict.signature;
+    expect(Object.keys(signature.input.shape)).toEqual(["question"]);
+    expect(Object.keys(signature.output.shape)).toEqual([
+      "reasoning",
+      "answer",
+    ]);
+    expect(signature.prefixes.reasoning).toBe(REASONING_PREFIX);
+  });
+
+  test("keeps the instructions of the wrapped signature", () => {
+    const sig = new Signature({
+      instructions: "Answer the question.",
+      input: z.object({ question: z.string() }),
+      output: z.object({ answer: z.string() }),
+    });
+    const cot = new ChainOfThought(sig);
+    expect(cot.predict.signature.instructions).toBe("Answer the question.");
+  });
+
+  test("returns reasoning alongside the output fields", async () => {
+    const cot = new ChainOfThought("question -> answer");
+    const result = await cot.run({ question: "What is 1+1?" });
+
+    expect(result.reasoning).toBe("dummy");
+    expect(result.answer).toBe("dummy");
+    expect(result).toHaveProperty("_result");
+  });
+
+  test("named_predictors exposes the inner predictor as predict", () => {
+    const program = new CypherProgram();
+    const namedPreds = program.named_predictors();
+    expect(namedPreds.map((p) => p.name)).toEqual(["generate_cypher.predict"]);
+    expect(namedPreds[0]!.predictor).toBeInstanceOf(Predict);
+  });
+
+  test("dump_state and load_state round-trip the DSPy layout", () => {
+    const program = new CypherProgram();
+    const state = program.dump_state();
+
+    expect(state).toHaveProperty(["generate_cypher.predict"]);
+    const fields = state["generate_cypher.predict"].signature.fields;
+    expect(fields.map((f: any) => f.prefix)).toEqual([
+      "Question:",
+      REASONING_PREFIX,
+      "Statement:",
+    ]);
+    expect(fields[1].description).toBe("${reasoning}");
+
+    state["generate_cypher.predict"].signature.instructions =
+      "Generate a Cypher query.";
+    const program2 = new CypherProgram();
+    program2.load_state(state);
+
+    const loaded = program2.generate_cypher.predict.signature;
+    expect(loaded.instructions).toBe("Generate a Cypher query.");
+    expect(loaded.prefixes.reasoning).toBe(REASONING_PREFIX);
+    expect(program2.dump_state()).toEqual(state);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { MockEmbeddingModelV3 } from "ai/test";
+import { KNN } from "../../src/predict/knn";
+import { Example } from "../../src/primitives/example";
+
+const TOPICS = ["math", "history", "cooking"];
+
+/**
+ * Embeds texts as the topics they mention.
+ */
+function topic_model() {
+  return new MockEmbeddingModelV3({
+    maxEmbeddingsPerCall: null,
+    doEmbed: async ({ values }) => ({
+      embeddings: values.map((value) =>
+        TOPICS.map((topic) => (value.includes(topic) ? 1 : 0.1))
+      ),
+      warnings: [],
+    }),
+  });
+}
+
+const trainset = [
+  "math: 2+2?",
+  "history: when did Rome fall?",
+  "cooking: how long to boil an egg?",
+  "math: 3*3?",
+].map((question, i) =>
+  new Example({ question, answer: `a${i}` }).withInputs("question")
+);
+
+describe("KNN", () => {
+  test("retrieves the nearest examples, most similar first", async () => {
+    const knn = new KNN({ k: 2, trainset, vectorizer: topic_model() });
+
+    const neighbors = await knn.run({ question: "math: 1+1?" });
+    expect(neighbors.map((example) => example.question)).toEqual([
+      "math: 2+2?",
+      "math: 3*3?",
+    ]);
+  });
+
+  test("embeds the input fields of the trainset once", async () => {
+    const vectorizer = topic_model();
+    const knn = new KNN({ k: 1, trainset, vectorizer });
+
+    await Promise.all([
+      knn.run({ question: "history: who was Caesar?" }),
+      knn.run({ question: "cooking: what is a roux?" }),
+    ]);
+    const trainset_calls = vectorizer.doEmbedCalls.filter(
+      ({ values }) => values.length > 1
+    );
+    expect(trainset_calls).toHaveLength(1);
+    expect(trainset_calls[0]!.values[0]).toBe("question: math: 2+2?");
+    expect(knn.trainset_vectors).toHaveLength(4);
+  });
+
+  test("restores the index from its state", async () => {
+    const knn = new KNN({ k: 1, trainset, vectorizer: topic_model() });
+    await knn.run({ question: "math: 1+1?" });
+
+    const vectorizer = topic_model();
+    const loaded = new KNN({ k: 1, trainset, vectorizer });
+    loaded.load_state(JSON.parse(JSON.stringify(knn.dump_state())));
+
+    const [nearest] = await loaded.run({ question: "cooking: pasta?" });
+    expect(nearest!.question).toBe("cooking: how long to boil an egg?");
+    // Only the input is embedded
+    expect(vectorizer.doEmbedCalls).toHaveLength(1);
+
+    expect(() =>
+      new KNN({
+        k: 1,
+        trainset: trainset.slice(1),
+        vectorizer,
+      }).load_state(knn.dump_state())
+    ).toThrow("The saved index has 4 vectors but the trainset has 3 examples");
+  });
+});
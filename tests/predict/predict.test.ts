@@ -4,7 +4,29 @@ import { Signature } from "../../src/signatures/signature";
 import { configure } from "../../src/settings";
 import { MockLM } from "../test_utils";
 import { JSONAdapter } from "../../src/adapters/json_adapter";
+import { History } from "../../src/adapters/types";
+import { ContextWindowExceededError } from "../../src/exceptions";
 import { z } from "zod";
+import { APICallError, simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import type { LanguageModelV3StreamPart } from "@ai-sdk/provider";
+import { LM } from "../../src/clients/lm";
+
+/**
+ * A MockLM that reports a context window overflow while the prompt has more than `max_messages` messages.
+ */
+function overflowingLM(max_messages: number): MockLM {
+  const lm = new MockLM();
+  const generateText = lm.generateText.bind(lm);
+  lm.generateText = async (options: any) => {
+    if (options.messages.length > max_messages) {
+      lm.calls.push(options);
+      throw new ContextWindowExceededError("prompt is too long");
+    }
+    return generateText(options);
+  };
+  return lm;
+}
 
 describe("Predict", () => {
   beforeEach(() => {
@@ -71,7 +93,7 @@ describe("Predict", () => {
     predict.signature = sig.withInstructions(newInstructions);
 
     const state = predict.dump_state();
-    expect(state.instructions).toBe(newInstructions);
+    expect(state.signature.instructions).toBe(newInstructions);
 
     const predict2 = new Predict("question -> answer");
     expect(predict2.signature.instructions).not.toBe(newInstructions);
@@ -81,4 +103,220 @@ describe("Predict", () => {
     // As noted, this might fail if Predict.load_state doesn't re-assign this.signature
     expect(predict2.signature.instructions).toBe(newInstructions);
   });
+
+  test("forward passes demos to the adapter", async () => {
+    const lm = new MockLM();
+    const predict = new Predict("question -> answer");
+    predict.setLM(lm);
+    predict.demos = [{ question: "What is 1+1?", answer: "2" }];
+
+    await predict.forward({ question: "What is 2+2?" });
+
+    // system + demo (user + assistant) + current input
+    const messages = lm.calls[0].messages;
+    expect(messages).toHaveLength(4);
+    expect(messages[1].content).toContain('"What is 1+1?"');
+  });
+
+  test("constructor config is passed to the adapter as lm_kwargs", async () => {
+    const lm = new MockLM();
+    const predict = new Predict("question -> answer", {
+      temperature: 0.3,
+      maxOutputTokens: 100,
+    });
+    predict.setLM(lm);
+
+    await predict.run({ question: "What is 2+2?" });
+
+    expect(lm.calls[0].temperature).toBe(0.3);
+    expect(lm.calls[0].maxOutputTokens).toBe(100);
+  });
+
+  test("per-call config overrides the constructor config", async () => {
+    const lm = new MockLM();
+    const predict = new Predict("question -> answer", {
+      temperature: 0.3,
+      stopSequences: ["\n\n"],
+    });
+    predict.setLM(lm);
+
+    await predict.run({ question: "What is 2+2?" }, { temperature: 1 });
+
+    expect(lm.calls[0].temperature).toBe(1);
+    expect(lm.calls[0].stopSequences).toEqual(["\n\n"]);
+    expect(predict.config.temperature).toBe(0.3);
+  });
+
+  test("dump_state uses the DSPy layout and persists demos", () => {
+    const predict = new Predict("question -> answer");
+    predict.demos = [{ question: "What is 1+1?", answer: "2" }];
+
+    const state = predict.dump_state();
+    expect(state).toEqual({
+      traces: [],
+      train: [],
+      demos: [{ question: "What is 1+1?", answer: "2" }],
+      signature: predict.signature.dump_state(),
+      lm: null,
+    });
+
+    const predict2 = new Predict("question -> answer");
+    predict2.load_state(state);
+    expect(predict2.demos).toEqual([{ question: "What is 1+1?", answer: "2" }]);
+  });
+
+  test("load_state accepts a bare signature state", () => {
+    const predict = new Predict("question -> answer");
+    predict.load_state({
+      instructions: "Answer briefly.",
+      fields: [
+        { prefix: "Question:", description: "" },
+        { prefix: "Answer:", description: "" },
+      ],
+    });
+    expect(predict.signature.instructions).toBe("Answer briefly.");
+    expect(predict.demos).toEqual([]);
+  });
+
+  describe("context_window_strategy", () => {
+    const demos = [
+      { question: "What is 1+1?", answer: "2" },
+      { question: "What is 2+2?", answer: "4" },
+    ];
+
+    test("raises ContextWindowExceededError without a strategy", async () => {
+      const lm = overflowingLM(2);
+      const predict = new Predict("question -> answer");
+      predict.setLM(lm);
+      predict.demos = demos;
+
+      await expect(
+        predict.forward({ question: "What is 3+3?" })
+      ).rejects.toBeInstanceOf(ContextWindowExceededError);
+      expect(lm.calls).toHaveLength(1);
+    });
+
+    test("drop_demos drops the oldest demos until the prompt fits", async () => {
+      const lm = overflowingLM(4);
+      const predict = new Predict(
+        "question -> answer",
+        {},
+        { context_window_strategy: "drop_demos" }
+      );
+      predict.setLM(lm);
+      predict.demos = demos;
+
+      const result = await predict.forward({ question: "What is 3+3?" });
+
+      expect(result.answer).toBe("dummy");
+      expect(lm.calls).toHaveLength(2);
+      expect(lm.calls[1].messages[1].content).toContain('"What is 2+2?"');
+      expect(predict.demos).toEqual(demos);
+    });
+
+    test("truncate_history drops the oldest turns", async () => {
+      const lm = overflowingLM(4);
+      const signature = new Signature({
+        input: z.object({ question: z.string(), history: History() }),
+        output: z.object({ answer: z.string() }),
+      });
+      const predict = new Predict(
+        signature,
+        {},
+        { context_window_strategy: "truncate_history" }
+      );
+      predict.setLM(lm);
+
+      const history = [
+        { question: "Hi", answer: "Hello" },
+        { question: "How are you?", answer: "Fine" },
+      ];
+      await predict.forward({ question: "And you?", history });
+
+      expect(lm.calls).toHaveLength(2);
+      expect(lm.calls[1].messages[1].content).toContain('"How are you?"');
+      expect(history).toHaveLength(2);
+    });
+
+    test("drop_demos recovers from an overflow reported while streaming", async () => {
+      const prompts: number[] = [];
+      const model = new MockLanguageModelV3({
+        doStream: async ({ prompt }) => {
+          prompts.push(prompt.length);
+          if (prompt.length > 4) {
+            throw new APICallError({
+              message: "This model's maximum context length is 128000 tokens.",
+              url: "https://example.com/v1/chat/completions",
+              requestBodyValues: {},
+              statusCode: 400,
+              isRetryable: false,
+            });
+          }
+          return {
+            stream: simulateReadableStream<LanguageModelV3StreamPart>({
+              chunks: [
+                { type: "stream-start", warnings: [] },
+                { type: "text-start", id: "1" },
+                { type: "text-delta", id: "1", delta: '{"answer": "6"}' },
+                { type: "text-end", id: "1" },
+                {
+                  type: "finish",
+                  finishReason: { unified: "stop", raw: undefined },
+                  usage: {
+                    inputTokens: {
+                      total: 1,
+                      noCache: 1,
+                      cacheRead: undefined,
+                      cacheWrite: undefined,
+                    },
+                    outputTokens: { total: 1, text: 1, reasoning: undefined },
+                  },
+                },
+              ],
+            }),
+          };
+        },
+      });
+      const predict = new Predict(
+        "question -> answer",
+        { maxRetries: 0 },
+        { context_window_strategy: "drop_demos" }
+      );
+      predict.setLM(new LM(model));
+      predict.demos = demos;
+
+      let prediction: any;
+      for await (const event of predict.stream({ question: "What is 3+3?" })) {
+        if (event.type === "prediction") prediction = event.prediction;
+      }
+
+      expect(prediction.answer).toBe("6");
+      expect(prompts).toEqual([6, 4]);
+    });
+
+    test("auto drops the demos before the history and gives up when nothing is left", async () => {
+      const lm = overflowingLM(1);
+      const signature = new Signature({
+        input: z.object({ question: z.string(), history: History() }),
+        output: z.object({ answer: z.string() }),
+      });
+      const predict = new Predict(
+        signature,
+        {},
+        { context_window_strategy: "auto" }
+      );
+      predict.setLM(lm);
+      predict.demos = demos;
+
+      await expect(
+        predict.forward({
+          question: "And you?",
+          history: [{ question: "Hi", answer: "Hello" }],
+        })
+      ).rejects.toBeInstanceOf(ContextWindowExceededError);
+
+      const lengths = lm.calls.map((c) => c.messages.length);
+      expect(lengths).toEqual([8, 6, 4, 2]);
+    });
+  });
 });
@@ -0,0 +1,136 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { ReAct } from "../../src/predict/react";
+import { Signature } from "../../src/signatures/signature";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+import { z } from "zod";
+
+const addTool = {
+  description: "Adds two numbers",
+  inputSchema: z.object({ a: z.number(), b: z.number() }),
+  execute: async ({ a, b }: { a: number; b: number }) => a + b,
+};
+
+const failingTool = {
+  description: "Always fails",
+  inputSchema: z.object({}),
+  execute: async () => {
+    throw new Error("boom");
+  },
+};
+
+const MathSignature = new Signature({
+  instructions: "Solve the math problem.",
+  input: z.object({ question: z.string() }),
+  output: z.object({ answer: z.number() }),
+  tools: { add: addTool, fail: failingTool },
+});
+
+const step = (thought: string, tool: string, args: object) =>
+  `[[ ## next_thought ## ]]\n${thought}\n\n` +
+  `[[ ## next_tool_name ## ]]\n${tool}\n\n` +
+  `[[ ## next_tool_args ## ]]\n${JSON.stringify(args)}\n\n` +
+  `[[ ## completed ## ]]`;
+
+const extraction =
+  "[[ ## reasoning ## ]]\nThe add tool returned 3.\n\n" +
+  "[[ ## answer ## ]]\n3\n\n[[ ## completed ## ]]";
+
+describe("ReAct", () => {
+  let lm: MockLM;
+
+  beforeEach(() => {
+    lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("builds react and extract signatures from the user's signature", () => {
+    const agent = new ReAct(MathSignature);
+    const reactSig = agent.react.signature;
+
+    expect(Object.keys(reactSig.input.shape)).toEqual([
+      "question",
+      "trajectory",
+    ]);
+    expect(Object.keys(reactSig.output.shape)).toEqual([
+      "next_thought",
+      "next_tool_name",
+      "next_tool_args",
+    ]);
+    expect(reactSig.tools).toBeUndefined();
+    expect(reactSig.instructions).toContain("Solve the math problem.");
+    expect(reactSig.instructions).toContain(
+      "(1) add, whose description is <desc>Adds two numbers</desc>."
+    );
+    expect(reactSig.instructions).toContain("(3) finish");
+
+    const extractSig = agent.extract.predict.signature;
+    expect(Object.keys(extractSig.output.shape)).toEqual([
+      "reasoning",
+      "answer",
+    ]);
+  });
+
+  test("named_predictors exposes the inner predictors", () => {
+    const agent = new ReAct(MathSignature);
+    expect(agent.named_predictors().map((p) => p.name)).toEqual([
+      "react",
+      "extract.predict",
+    ]);
+  });
+
+  test("calls tools and extracts the typed outputs", async () => {
+    lm.responses.push(
+      step("I should add the numbers.", "add", { a: 1, b: 2 }),
+      step("I have the answer.", "finish", {}),
+      extraction
+    );
+    const agent = new ReAct(MathSignature);
+    const result = await agent.run({ question: "What is 1 + 2?" });
+
+    expect(result.answer).toBe(3);
+    expect(result.trajectory).toEqual({
+      thought_0: "I should add the numbers.",
+      tool_name_0: "add",
+      tool_args_0: { a: 1, b: 2 },
+      observation_0: 3,
+      thought_1: "I have the answer.",
+      tool_name_1: "finish",
+      tool_args_1: {},
+      observation_1: "Completed.",
+    });
+    expect(lm.calls.length).toBe(3);
+
+    // The second step sees the observation of the first one
+    const secondPrompt = lm.calls[1].messages.at(-1).content;
+    expect(secondPrompt).toContain("[[ ## observation_0 ## ]]");
+  });
+
+  test("tool errors become observations", async () => {
+    lm.responses.push(
+      step("Try the failing tool.", "fail", {}),
+      step("Done.", "finish", {}),
+      extraction
+    );
+    const agent = new ReAct(MathSignature);
+    const result = await agent.run({ question: "What is 1 + 2?" });
+
+    expect(result.trajectory.observation_0).toBe(
+      "Execution error in fail: boom"
+    );
+  });
+
+  test("stops after max_iters", async () => {
+    lm.responses.push(
+      step("Add.", "add", { a: 1, b: 2 }),
+      step("Add again.", "add", { a: 1, b: 2 }),
+      extraction
+    );
+    const agent = new ReAct(MathSignature, 2);
+    const result = await agent.run({ question: "What is 1 + 2?" });
+
+    expect(Object.keys(result.trajectory)).toHaveLength(8);
+    expect(result.answer).toBe(3);
+  });
+});
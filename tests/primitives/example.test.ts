@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { Example } from "../../src/primitives/example";
+import { Signature } from "../../src/signatures/signature";
+import { Predict } from "../../src/predict/predict";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+const signature = new Signature({
+  input: z.object({ question: z.string() }),
+  output: z.object({ answer: z.string(), score: z.number() }),
+});
+
+describe("Example", () => {
+  test("fields are set on the instance", () => {
+    const example = new Example({ question: "What is 2+2?", answer: "4" });
+
+    expect(example.question).toBe("What is 2+2?");
+    expect(example.answer).toBe("4");
+    expect(example._input_keys).toBeNull();
+    expect({ ...example } as object).toEqual({
+      question: "What is 2+2?",
+      answer: "4",
+    });
+  });
+
+  test("withInputs separates inputs from labels", () => {
+    const example = new Example({
+      question: "What is 2+2?",
+      answer: "4",
+    }).withInputs("question");
+
+    expect(example._input_keys).toEqual(["question"]);
+    expect(example.inputs().toDict()).toEqual({ question: "What is 2+2?" });
+    expect(example.inputs()._input_keys).toEqual(["question"]);
+    expect(example.labels().toDict()).toEqual({ answer: "4" });
+  });
+
+  test("inputs throws when no input keys are set", () => {
+    const example = new Example({ question: "What is 2+2?" });
+    expect(() => example.inputs()).toThrow("Inputs have not been set");
+  });
+
+  test("copy and without return new examples", () => {
+    const example = new Example({
+      question: "What is 2+2?",
+      answer: "4",
+    }).withInputs("question");
+
+    const copy = example.copy({ answer: "four" });
+    expect(copy.answer).toBe("four");
+    expect(copy._input_keys).toEqual(["question"]);
+    expect(example.answer).toBe("4");
+
+    const without = example.without("answer");
+    expect(without.toDict()).toEqual({ question: "What is 2+2?" });
+    expect(example.answer).toBe("4");
+  });
+
+  test("from validates against the signature and marks its inputs", () => {
+    const example = Example.from(signature, {
+      question: "What is 2+2?",
+      answer: "4",
+      score: 1,
+    });
+
+    expect(example.toDict()).toEqual({
+      question: "What is 2+2?",
+      answer: "4",
+      score: 1,
+    });
+    expect(example.inputs().toDict()).toEqual({ question: "What is 2+2?" });
+    expect(example.labels().toDict()).toEqual({ answer: "4", score: 1 });
+
+    // Labels are optional
+    expect(Example.from(signature, { question: "?" }).toDict()).toEqual({
+      question: "?",
+    });
+
+    expect(() =>
+      // @ts-expect-error score must be a number
+      Example.from(signature, { question: "?", score: "high" })
+    ).toThrow();
+    expect(() =>
+      // @ts-expect-error question is required
+      Example.from(signature, { answer: "4" })
+    ).toThrow();
+  });
+
+  test("examples are demos of a Predict and dump to the demos layout", async () => {
+    const lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter() });
+
+    const predict = new Predict(signature);
+    predict.demos = [
+      Example.from(signature, { question: "What is 1+1?", answer: "2" }),
+    ];
+    await predict.forward({ question: "What is 2+2?" });
+    expect(lm.calls[0].messages[1].content).toContain('"What is 1+1?"');
+
+    const state = predict.dump_state();
+    expect(state.demos).toEqual([{ question: "What is 1+1?", answer: "2" }]);
+
+    const predict2 = new Predict(signature);
+    predict2.load_state(state);
+    expect(predict2.demos[0]).toBeInstanceOf(Example);
+    expect(predict2.demos[0]!.answer).toBe("2");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeEach } from "bun:test";
-import { Module } from "../../src/primitives/module";
+import { Module, withTrace, type DSTsTrace } from "../../src/primitives/module";
 import { Predict } from "../../src/predict/predict";
 import { Prediction } from "../../src/primitives/prediction";
 import { configure } from "../../src/settings";
@@ -93,6 +93,75 @@ describe("Module", () => {
     expect(module.traces[3]!.module).toBe("NestedModule");
   });
 
+  test("modules only keep the trace of their last run", async () => {
+    const module = new NestedModule();
+    await module.run({ question: "What is 2+2?" });
+    await module.run({ question: "What is 3+3?" });
+
+    expect(module.traces.length).toBe(4);
+    expect(module.sub.traces.length).toBe(3);
+    expect(module.traces[0]!.instance).toBe(module.sub.predict1);
+    expect(module.traces[0]!.example).toEqual({ question: "What is 3+3?" });
+    expect(module.traces[3]!.instance).toBe(module);
+  });
+
+  test("predictor entries are named after the outermost module", async () => {
+    const module = new NestedModule();
+    await module.run({ question: "What is 2+2?" });
+
+    expect(module.traces.map(({ name }) => name)).toEqual([
+      "sub.predict1",
+      "sub.predict2",
+      undefined,
+      undefined,
+    ]);
+    expect(module.sub.traces.map(({ name }) => name)).toEqual([
+      "predict1",
+      "predict2",
+      undefined,
+    ]);
+  });
+
+  test("withTrace returns the trace of each call", async () => {
+    const module = new SimpleModule();
+
+    const first = await withTrace(() =>
+      module.run({ question: "What is 2+2?" })
+    );
+    const second = await withTrace(() =>
+      module.run({ question: "What is 3+3?" })
+    );
+
+    expect(first.result).toBe(first.trace[2]!.prediction);
+    expect(first.trace.map(({ module }) => module)).toEqual([
+      "Predict",
+      "Predict",
+      "SimpleModule",
+    ]);
+    expect(second.trace).toHaveLength(3);
+    expect(second.trace[2]!.example).toEqual({ question: "What is 3+3?" });
+  });
+
+  test("withTrace adds its entries to the enclosing trace", async () => {
+    class Wrapper extends Module {
+      public inner = new SimpleModule();
+      public inner_trace: DSTsTrace = [];
+
+      async forward(input: any): Promise<Prediction<any, any>> {
+        const { result, trace } = await withTrace(() => this.inner.run(input));
+        this.inner_trace = trace;
+        return result;
+      }
+    }
+
+    const module = new Wrapper();
+    await module.run({ question: "What is 2+2?" });
+
+    expect(module.inner_trace).toHaveLength(3);
+    expect(module.traces).toHaveLength(4);
+    expect(module.traces[0]!.name).toBe("inner.predict1");
+  });
+
   test("dump_state and load_state", () => {
     const module = new SimpleModule();
 
@@ -103,7 +172,7 @@ describe("Module", () => {
     const state = module.dump_state();
     expect(state).toHaveProperty("predict1");
     expect(state).toHaveProperty("predict2");
-    expect(state.predict1.instructions).toBe(newInstructions);
+    expect(state.predict1.signature.instructions).toBe(newInstructions);
 
     const module2 = new SimpleModule();
     expect(module2.predict1.signature.instructions).not.toBe(newInstructions);
@@ -120,4 +189,125 @@ describe("Module", () => {
 
     expect(module2.predict1.signature.instructions).toBe(newInstructions);
   });
+
+  test("deepcopy copies submodules and shares LMs and signatures", () => {
+    const module = new NestedModule();
+    module.sub.predict1.demos = [{ question: "q", query: "x" }];
+
+    const copy = module.deepcopy();
+
+    expect(copy).toBeInstanceOf(NestedModule);
+    expect(copy.sub).not.toBe(module.sub);
+    expect(copy.sub.predict1).not.toBe(module.sub.predict1);
+    expect(copy.sub.predict1).toBeInstanceOf(Predict);
+    expect(copy.sub.predict1.lm).toBe(module.sub.predict1.lm);
+    expect(copy.sub.predict1.signature).toBe(module.sub.predict1.signature);
+    expect(copy.sub.predict1.demos).toEqual(module.sub.predict1.demos);
+
+    copy.sub.predict1.demos.push({ question: "q2", query: "y" });
+    expect(module.sub.predict1.demos).toHaveLength(1);
+  });
+
+  test("named_parameters follows DSPy's naming", () => {
+    class Program extends Module {
+      public nested = new NestedModule();
+      public steps = [new Predict("a -> b"), new Predict("b -> c")];
+      public by_name = { first: new Predict("a -> b") };
+      public alias = this.nested.sub.predict1;
+
+      async forward(input: any): Promise<Prediction<any, any>> {
+        return await this.nested.run(input);
+      }
+    }
+
+    const program = new Program();
+    expect(program.named_parameters().map(({ name }) => name)).toEqual([
+      "nested.sub.predict1",
+      "nested.sub.predict2",
+      "steps[0]",
+      "steps[1]",
+      "by_name['first']",
+    ]);
+    expect(program.named_parameters()[2]!.parameter).toBe(program.steps[0]!);
+
+    // Compiled submodules are frozen
+    program.nested._compiled = true;
+    expect(program.named_parameters().map(({ name }) => name)).toEqual([
+      "steps[0]",
+      "steps[1]",
+      "by_name['first']",
+      "alias",
+    ]);
+  });
+
+  test("a bare predictor is named self", () => {
+    const predict = new Predict("question -> answer");
+    expect(predict.named_parameters()).toEqual([
+      { name: "self", parameter: predict },
+    ]);
+    expect(predict.named_predictors()).toEqual([
+      { name: "self", predictor: predict },
+    ]);
+    // A bare predictor still dumps its own state
+    expect(Object.keys(predict.dump_state())).not.toContain("self");
+  });
+
+  test("named_predictors and the saved state use DSPy's naming", () => {
+    class Program extends Module {
+      public by_name = { first: new Predict("a -> b") };
+      public frozen = new SimpleModule();
+
+      async forward(input: any): Promise<Prediction<any, any>> {
+        return await this.by_name.first.run(input);
+      }
+    }
+
+    const program = new Program();
+    program.frozen._compiled = true;
+    program.by_name.first.signature =
+      program.by_name.first.signature.withInstructions("Be brief.");
+
+    expect(program.named_predictors().map(({ name }) => name)).toEqual([
+      "by_name['first']",
+    ]);
+    const state = program.dump_state();
+    expect(Object.keys(state)).toEqual(["by_name['first']"]);
+
+    const loaded = new Program();
+    loaded.frozen._compiled = true;
+    loaded.load_state(JSON.parse(JSON.stringify(state)));
+    expect(loaded.by_name.first.signature.instructions).toBe("Be brief.");
+  });
+
+  test("deepcopy keeps shared submodules shared", () => {
+    class Shared extends Module {
+      public first = new Predict("question -> answer");
+      public second = this.first;
+
+      async forward(input: any): Promise<Prediction<any, any>> {
+        return await this.first.run(input);
+      }
+    }
+
+    const module = new Shared();
+    const copy = module.deepcopy();
+
+    expect(copy.first).not.toBe(module.first);
+    expect(copy.second).toBe(copy.first);
+  });
+
+  test("reset_copy clears the demos of every predictor and the traces of every module", async () => {
+    const module = new SimpleModule();
+    module.predict1.demos = [{ question: "q", query: "x" }];
+    await module.run({ question: "What is 2+2?" });
+
+    const copy = module.reset_copy();
+
+    expect(copy.predict1.demos).toEqual([]);
+    expect(copy.predict1.traces).toEqual([]);
+    expect(copy.predict2.traces).toEqual([]);
+    expect(copy.traces).toEqual([]);
+    expect(module.predict1.demos).toHaveLength(1);
+    expect(module.predict1.traces).toHaveLength(1);
+  });
 });
@@ -0,0 +1,164 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import {
+  GroundedProposer,
+  generate_instruction_class,
+} from "../../src/propose/grounded_proposer";
+import { strip_prefix } from "../../src/propose/utils";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { AdapterParseError } from "../../src/exceptions";
+import { MockLM } from "../test_utils";
+
+/**
+ * Responds to any signature with "<field> text" for each output field.
+ */
+class AnyLM extends MockLM {
+  override async generateText(options: any) {
+    const content: string = options.messages.at(-1).content;
+    const fields = [...content.matchAll(/`\[\[ ## (\w+) ## \]\]`/g)]
+      .map((m) => m[1]!)
+      .filter((field) => field !== "completed");
+    this.responses.push(
+      fields
+        .map((field) => `[[ ## ${field} ## ]]\n${field} text`)
+        .join("\n\n") + "\n\n[[ ## completed ## ]]"
+    );
+    return super.generateText(options);
+  }
+}
+
+class QA extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+describe("GroundedProposer", () => {
+  let lm: AnyLM;
+
+  beforeEach(() => {
+    lm = new AnyLM();
+    configure({ lm: new MockLM(), adapter: new ChatAdapter(false) });
+  });
+
+  test("proposes N instructions per predictor, starting with the current one", async () => {
+    const program = new QA();
+    const proposer = new GroundedProposer({ prompt_model: lm, program });
+
+    const instructions = await proposer.propose_instructions_for_program({
+      trainset,
+      demo_candidates: [[[{ question: "x", answer: "X" }]]],
+      N: 3,
+    });
+
+    expect(instructions).toEqual([
+      [
+        program.answer.signature.instructions!,
+        "proposed_instruction text",
+        "proposed_instruction text",
+      ],
+    ]);
+    expect(proposer.data_summary).toBe("summary text");
+
+    const proposal = lm.calls.at(-1);
+    const content: string = proposal.messages.at(-1).content;
+    expect(content).toContain("question: x\\nanswer: X");
+    expect(content).toContain("module_description text");
+    expect(content).toContain("class QA");
+    expect(proposal.temperature).toBeGreaterThan(1.01);
+    expect(proposal.temperature).toBeLessThan(1.05);
+  });
+
+  test("skips the dataset summary and program description when disabled", async () => {
+    const proposer = new GroundedProposer({
+      prompt_model: lm,
+      program: new QA(),
+      use_dataset_summary: false,
+      program_aware: false,
+    });
+
+    await proposer.propose_instructions_for_program({ trainset, N: 2 });
+
+    expect(lm.calls).toHaveLength(1);
+    expect(lm.calls[0].messages.at(-1).content).toContain(
+      "No task demos provided."
+    );
+  });
+
+  test("skips the dataset summary when its response cannot be parsed", async () => {
+    let calls = 0;
+    const generateText = lm.generateText.bind(lm);
+    lm.generateText = async (options: any) => {
+      if (calls++ === 0) {
+        lm.calls.push(options);
+        lm.responses.push("not a summary");
+        return MockLM.prototype.generateText.call(lm, options);
+      }
+      return generateText(options);
+    };
+    const proposer = new GroundedProposer({
+      prompt_model: lm,
+      program: new QA(),
+      program_aware: false,
+    });
+
+    const instructions = await proposer.propose_instructions_for_program({
+      trainset,
+      N: 2,
+    });
+
+    expect(instructions[0]).toHaveLength(2);
+    expect(proposer.use_dataset_summary).toBe(false);
+    expect(proposer.errors).toHaveLength(1);
+    expect(proposer.errors[0]).toBeInstanceOf(AdapterParseError);
+  });
+
+  test("throws the errors of the LM", async () => {
+    lm.generateText = async () => {
+      throw new Error("Invalid API key");
+    };
+    const proposer = new GroundedProposer({
+      prompt_model: lm,
+      program: new QA(),
+    });
+
+    await expect(
+      proposer.propose_instructions_for_program({ trainset, N: 2 })
+    ).rejects.toThrow("Invalid API key");
+    expect(proposer.errors).toEqual([]);
+  });
+
+  test("generate_instruction_class only has the enabled inputs", () => {
+    const signature = generate_instruction_class({
+      use_dataset_summary: false,
+      program_aware: false,
+    });
+    expect(Object.keys(signature.input_fields)).toEqual([
+      "task_demos",
+      "basic_instruction",
+      "tip",
+    ]);
+    expect(Object.keys(signature.output_fields)).toEqual([
+      "proposed_instruction",
+    ]);
+  });
+
+  test("strip_prefix removes echoed field prefixes and quotes", () => {
+    expect(strip_prefix('PROPOSED INSTRUCTION: "Be concise."')).toBe(
+      "Be concise."
+    );
+    expect(strip_prefix("No prefix here")).toBe("No prefix here");
+  });
+});
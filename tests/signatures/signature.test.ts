@@ -64,6 +64,32 @@ describe("Signature Class", () => {
       expect(newSig).not.toBe(sig);
     });
 
+    test("should support prepend method (side-specific)", () => {
+      const sig = new Signature({
+        input: z.object({ a: z.string() }),
+        output: z.object({ b: z.string() }),
+      });
+
+      const newSig = sig.prepend("output", "r", z.string(), "Reason:");
+      expect(Object.keys(newSig.output.shape)).toEqual(["r", "b"]);
+      expect(Object.keys(newSig.input.shape)).toEqual(["a"]);
+      expect(newSig.prefixes.r).toBe("Reason:");
+      expect(newSig.prefixes.b).toBe("B:");
+      expect(Object.keys(sig.output.shape)).toEqual(["b"]);
+    });
+
+    test("should preserve custom prefixes across withInstructions", () => {
+      const sig = new Signature({
+        input: z.object({ a: z.string() }),
+        output: z.object({ b: z.string() }),
+        prefixes: { b: "Custom B:" },
+      });
+
+      const newSig = sig.withInstructions("new instructions");
+      expect(newSig.prefixes.b).toBe("Custom B:");
+      expect(newSig.prefixes.a).toBe("A:");
+    });
+
     test("should provide input_fields and output_fields getters", () => {
       const sig = new Signature({
         input: z.object({ a: z.string() }),
@@ -266,6 +292,18 @@ describe("Signature.load_state", () => {
     expect(newSig.prefixes["answer"]).toBe("Answer:");
   });
 
+  test("should restore updated prefixes by position", () => {
+    const sig = Signature.parse("question -> answer");
+    const state = sig.withPrefix("answer", "Final Answer:").dump_state();
+
+    const loaded = Signature.parse("question -> answer").load_state(state);
+    expect(loaded.prefixes).toEqual({
+      question: "Question:",
+      answer: "Final Answer:",
+    });
+    expect(sig.prefixes.answer).toBe("Answer:");
+  });
+
   test("should preserve schema modifiers (passthrough)", () => {
     const sig = new Signature({
       input: z.object({ q: z.string() }).passthrough(),
@@ -0,0 +1,130 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { StreamListener } from "../../src/streaming/stream_listener";
+import { streamify, type StreamEvent } from "../../src/streaming/streamify";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { JSONAdapter } from "../../src/adapters/json_adapter";
+import { MockLM } from "../test_utils";
+
+class TwoStepModule extends Module {
+  public draft = new Predict("question -> answer");
+  public refine = new Predict("answer -> answer, notes");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    const draft = await this.draft.run(input);
+    return await this.refine.run({ answer: draft.answer });
+  }
+}
+
+async function chunks(
+  stream: AsyncGenerator<StreamEvent<any>>
+): Promise<Extract<StreamEvent<any>, { type: "chunk" }>[]> {
+  const result = [];
+  for await (const event of stream) {
+    if (event.type === "chunk") result.push(event);
+  }
+  return result;
+}
+
+describe("StreamListener", () => {
+  let lm: MockLM;
+
+  beforeEach(() => {
+    lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("emits the growing field and holds back partial markers", () => {
+    const listener = new StreamListener("answer");
+    const fields = ["answer", "notes"];
+
+    expect(listener.receive("self", { answer: "Par" }, fields)).toEqual({
+      predictor: "self",
+      field: "answer",
+      chunk: "Par",
+      isLastChunk: false,
+    });
+    expect(
+      listener.receive("self", { answer: "Paris\n\n[[ ## no" }, fields)
+    ).toEqual({
+      predictor: "self",
+      field: "answer",
+      chunk: "is",
+      isLastChunk: false,
+    });
+    expect(
+      listener.receive("self", { answer: "Paris", notes: "" }, fields)
+    ).toEqual({
+      predictor: "self",
+      field: "answer",
+      chunk: "",
+      isLastChunk: true,
+    });
+    expect(listener.receive("self", { answer: "Paris" }, fields)).toBeNull();
+  });
+
+  test("ignores predictors without the field or with another name", () => {
+    const listener = new StreamListener("answer", "refine");
+    expect(listener.receive("draft", { answer: "x" }, ["answer"])).toBeNull();
+    expect(listener.receive("refine", { query: "x" }, ["query"])).toBeNull();
+  });
+
+  test("streams a field of a nested predictor token by token", async () => {
+    lm.responses.push(
+      "[[ ## answer ## ]]\nParis\n\n[[ ## completed ## ]]",
+      "[[ ## answer ## ]]\nParis is the capital of France.\n\n" +
+        "[[ ## notes ## ]]\nNone.\n\n[[ ## completed ## ]]"
+    );
+    const program = new TwoStepModule();
+    const listener = new StreamListener("answer", "refine");
+    const events = await chunks(
+      streamify(program, { listeners: [listener] })({ question: "Capital?" })
+    );
+
+    expect(events.length).toBeGreaterThan(1);
+    expect(events.every((e) => e.predictor === "refine")).toBe(true);
+    expect(events.map((e) => e.chunk).join("")).toBe(
+      "Paris is the capital of France."
+    );
+    expect(events.filter((e) => e.isLastChunk)).toHaveLength(1);
+    expect(events.at(-1)!.isLastChunk).toBe(true);
+  });
+
+  test("can be reused across calls of every predictor with the field", async () => {
+    lm.responses.push(
+      "[[ ## answer ## ]]\nParis\n\n[[ ## completed ## ]]",
+      "[[ ## answer ## ]]\nParis, France\n\n[[ ## notes ## ]]\nok\n\n[[ ## completed ## ]]"
+    );
+    const program = new TwoStepModule();
+    const events = await chunks(
+      streamify(program, { listeners: [new StreamListener("answer")] })({
+        question: "Capital?",
+      })
+    );
+
+    const text = (name: string) =>
+      events
+        .filter((e) => e.predictor === name)
+        .map((e) => e.chunk)
+        .join("");
+    expect(text("draft")).toBe("Paris");
+    expect(text("refine")).toBe("Paris, France");
+    expect(events.filter((e) => e.isLastChunk)).toHaveLength(2);
+  });
+
+  test("follows JSON keys with JSONAdapter", async () => {
+    configure({ adapter: new JSONAdapter() });
+    const predict = new Predict("question -> answer");
+    const events = await chunks(
+      streamify(predict, { listeners: [new StreamListener("answer")] })({
+        question: "Capital?",
+      })
+    );
+
+    expect(events.map((e) => e.chunk).join("")).toBe("dummy");
+    expect(events.at(-1)!.isLastChunk).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { streamify } from "../../src/streaming/streamify";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { JSONAdapter } from "../../src/adapters/json_adapter";
+import { AdapterParseError } from "../../src/exceptions";
+import { MockLM } from "../test_utils";
+
+class SimpleModule extends Module {
+  public predict1 = new Predict("question -> query");
+  public predict2 = new Predict("query -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    const res1 = await this.predict1.run({ question: input.question });
+    const res2 = await this.predict2.run({ query: res1.query });
+    return res2;
+  }
+}
+
+async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const events: T[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("streamify", () => {
+  let lm: MockLM;
+
+  beforeEach(() => {
+    lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("Predict.stream yields partial outputs then the final prediction", async () => {
+    lm.responses.push(
+      "[[ ## answer ## ]]\nParis is the capital of France.\n\n[[ ## completed ## ]]"
+    );
+    const predict = new Predict("question -> answer");
+    const events = await collect(
+      predict.stream({ question: "What is the capital of France?" })
+    );
+
+    const partials = events.filter((e) => e.type === "partial");
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials.every((e) => e.predictor === "self")).toBe(true);
+
+    const last = events.at(-1)!;
+    expect(last.type).toBe("prediction");
+    if (last.type === "prediction") {
+      expect(last.prediction.answer).toBe("Paris is the capital of France.");
+      expect(last.prediction._result).not.toBeNull();
+    }
+  });
+
+  test("records traces once the stream finishes", async () => {
+    lm.responses.push("[[ ## answer ## ]]\nParis\n\n[[ ## completed ## ]]");
+    const predict = new Predict("question -> answer");
+    await collect(predict.stream({ question: "Capital of France?" }));
+
+    expect(predict.traces.length).toBe(1);
+    expect(predict.traces[0]!.prediction.answer).toBe("Paris");
+  });
+
+  test("streams every predictor of a composed module", async () => {
+    lm.responses.push(
+      "[[ ## query ## ]]\ncapital france\n\n[[ ## completed ## ]]",
+      "[[ ## answer ## ]]\nParis\n\n[[ ## completed ## ]]"
+    );
+    const program = new SimpleModule();
+    const events = await collect(
+      streamify(program)({ question: "Capital of France?" })
+    );
+
+    const predictors = new Set(
+      events.flatMap((e) => (e.type === "partial" ? [e.predictor] : []))
+    );
+    expect([...predictors]).toEqual(["predict1", "predict2"]);
+
+    const last = events.at(-1)!;
+    expect(last.type === "prediction" && last.prediction.answer).toBe("Paris");
+    expect(program.traces.length).toBe(3);
+  });
+
+  test("uses structured output streaming with JSONAdapter", async () => {
+    configure({ adapter: new JSONAdapter() });
+    const predict = new Predict("question -> answer");
+    const events = await collect(predict.stream({ question: "Capital?" }));
+
+    expect(events[0]).toEqual({
+      type: "partial",
+      predictor: "self",
+      output: { answer: "dummy" },
+    });
+    const last = events.at(-1)!;
+    expect(last.type === "prediction" && last.prediction.answer).toBe("dummy");
+  });
+
+  test("propagates errors raised while parsing the final output", async () => {
+    lm.responses.push("I don't follow the format");
+    const predict = new Predict("question -> answer");
+
+    await expect(
+      collect(predict.stream({ question: "Capital?" }))
+    ).rejects.toBeInstanceOf(AdapterParseError);
+  });
+});
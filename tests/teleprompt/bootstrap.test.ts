@@ -0,0 +1,191 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import type { GenerateTextResult } from "ai";
+import { BootstrapFewShot } from "../../src/teleprompt/bootstrap";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Answers with the uppercased question, and queries with "search <question>".
+ */
+class EchoLM extends MockLM {
+  override async generateText(
+    options: any
+  ): Promise<GenerateTextResult<any, any>> {
+    const content: string = options.messages.at(-1).content;
+    const question = JSON.parse(
+      content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+    );
+    this.responses.push(
+      content.includes("`[[ ## query ## ]]`")
+        ? `[[ ## query ## ]]\nsearch ${question}\n\n[[ ## completed ## ]]`
+        : `[[ ## answer ## ]]\n${question.toUpperCase()}\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class QA extends Module {
+  public generate_query = new Predict("question -> query");
+  public answer = new Predict("question, query -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    const { query } = await this.generate_query.run(input);
+    return await this.answer.run({ ...input, query });
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c"].map((question) =>
+  new Example({
+    question,
+    answer: question === "c" ? "x" : question.toUpperCase(),
+  }).withInputs("question")
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("BootstrapFewShot", () => {
+  let lm: EchoLM;
+
+  beforeEach(() => {
+    lm = new EchoLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("turns passing traces into demos and tops up with labeled examples", async () => {
+    const student = new QA();
+    const compiled = await new BootstrapFewShot({
+      metric: exact_match,
+      max_labeled_demos: 3,
+    }).compile(student, { trainset });
+
+    expect(compiled).not.toBe(student);
+    expect(compiled._compiled).toBe(true);
+    expect(student.answer.demos).toEqual([]);
+
+    expect(compiled.generate_query.demos.map((d) => ({ ...d }))).toEqual([
+      { question: "a", query: "search a" },
+      { question: "b", query: "search b" },
+      { question: "c", answer: "x" },
+    ]);
+    expect(compiled.answer.demos.map((d) => ({ ...d }))).toEqual([
+      { question: "a", query: "search a", answer: "A" },
+      { question: "b", query: "search b", answer: "B" },
+      { question: "c", answer: "x" },
+    ]);
+  });
+
+  test("respects the demo limits", async () => {
+    const compiled = await new BootstrapFewShot({
+      metric: exact_match,
+      max_bootstrapped_demos: 1,
+      max_labeled_demos: 1,
+    }).compile(new QA(), { trainset });
+
+    expect(compiled.answer.demos).toHaveLength(1);
+    expect(compiled.answer.demos[0]!.query).toBe("search a");
+    // Stops running the teacher once enough demos are bootstrapped
+    expect(lm.calls).toHaveLength(2);
+  });
+
+  test("hides the current example from the teacher's demos", async () => {
+    await new BootstrapFewShot({
+      metric: exact_match,
+      max_bootstrapped_demos: 1,
+    }).compile(new Answer(), { trainset });
+
+    const messages = lm.calls[0].messages;
+    // The system message, two demos of two messages each and the question
+    expect(messages).toHaveLength(6);
+    expect(messages.at(-1).content).toContain('"a"');
+    expect(messages[1].content).not.toContain('"a"');
+    expect(messages[3].content).not.toContain('"a"');
+  });
+
+  test("retries failing examples with a higher temperature", async () => {
+    await new BootstrapFewShot({
+      metric: () => false,
+      max_rounds: 2,
+      max_labeled_demos: 0,
+    }).compile(new Answer(), { trainset });
+
+    expect(lm.calls.map((call) => call.temperature)).toEqual([
+      undefined,
+      0.701,
+      undefined,
+      0.701,
+      undefined,
+      0.701,
+    ]);
+  });
+
+  test("passes the run's trace to the metric", async () => {
+    const lengths: number[] = [];
+    await new BootstrapFewShot({
+      metric: (_example, _prediction, trace) => {
+        lengths.push(trace!.length);
+        return true;
+      },
+    }).compile(new QA(), { trainset });
+
+    expect(lengths).toEqual([3, 3, 3]);
+  });
+
+  test("uses a metric threshold", async () => {
+    const compiled = await new BootstrapFewShot({
+      metric: (example) => (example.question === "b" ? 0.9 : 0.1),
+      metric_threshold: 0.5,
+      max_labeled_demos: 0,
+    }).compile(new Answer(), { trainset });
+
+    expect(compiled.answer.demos.map((d) => ({ ...d }))).toEqual([
+      { question: "b", answer: "B" },
+    ]);
+  });
+
+  test("fails after max_errors failed runs", async () => {
+    lm.generateText = async () => {
+      throw new Error("LM down");
+    };
+
+    await expect(
+      new BootstrapFewShot({ max_errors: 2 }).compile(new QA(), { trainset })
+    ).rejects.toThrow("LM down");
+  });
+
+  test("uses a compiled teacher as is", async () => {
+    const teacher = new Answer();
+    teacher._compiled = true;
+
+    await new BootstrapFewShot({ max_bootstrapped_demos: 1 }).compile(
+      new Answer(),
+      { trainset, teacher }
+    );
+
+    // No labeled demos were added to the teacher
+    expect(lm.calls[0].messages).toHaveLength(2);
+  });
+
+  test("rejects a teacher with different predictors", async () => {
+    await expect(
+      new BootstrapFewShot().compile(new QA(), {
+        trainset,
+        teacher: new Predict("question -> answer"),
+      })
+    ).rejects.toThrow("same number of predictors");
+  });
+});
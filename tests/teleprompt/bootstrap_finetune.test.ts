@@ -0,0 +1,211 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { tool, type GenerateTextResult } from "ai";
+import { z } from "zod";
+import { BootstrapFinetune } from "../../src/teleprompt/bootstrap_finetune";
+import { LocalFinetuneProvider } from "../../src/clients/provider";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { Signature } from "../../src/signatures/signature";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Answers with the uppercased question, and queries with "search <question>".
+ */
+class EchoLM extends MockLM {
+  override async generateText(
+    options: any
+  ): Promise<GenerateTextResult<any, any>> {
+    const content: string = options.messages.at(-1).content;
+    const question = JSON.parse(
+      content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+    );
+    this.responses.push(
+      content.includes("`[[ ## query ## ]]`")
+        ? `[[ ## query ## ]]\nsearch ${question}\n\n[[ ## completed ## ]]`
+        : `[[ ## answer ## ]]\n${question.toUpperCase()}\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class QA extends Module {
+  public generate_query = new Predict("question -> query");
+  public answer = new Predict("question, query -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    const { query } = await this.generate_query.run(input);
+    return await this.answer.run({ ...input, query });
+  }
+}
+
+const trainset = ["a", "b", "c"].map((question) =>
+  new Example({
+    question,
+    answer: question === "c" ? "x" : question.toUpperCase(),
+  }).withInputs("question")
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("BootstrapFinetune", () => {
+  let lm: EchoLM;
+  let provider: LocalFinetuneProvider;
+  let data_dir: string;
+
+  beforeEach(async () => {
+    lm = new EchoLM();
+    provider = new LocalFinetuneProvider();
+    data_dir = await mkdtemp(join(tmpdir(), "bootstrap-finetune-test-"));
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  test("writes the passing calls of each predictor and uses the fine-tuned LMs", async () => {
+    const student = new QA();
+    const compiled = await new BootstrapFinetune({
+      metric: exact_match,
+      provider,
+      train_kwargs: { n_epochs: 2 },
+      data_dir,
+    }).compile(student, { trainset });
+
+    expect(compiled).not.toBe(student);
+    expect(compiled._compiled).toBe(true);
+    expect(student.answer.lm).toBe(lm);
+
+    expect(provider.jobs.map((job) => job.train_data_path).sort()).toEqual([
+      join(data_dir, "answer.jsonl"),
+      join(data_dir, "generate_query.jsonl"),
+    ]);
+    for (const job of provider.jobs) {
+      expect(job.lm).toBe(lm);
+      expect(job.train_kwargs).toEqual({ n_epochs: 2 });
+      // The run on "c" fails the metric
+      expect(job.records).toHaveLength(2);
+    }
+
+    const answer_job = provider.jobs.find((job) =>
+      job.train_data_path.endsWith("answer.jsonl")
+    )!;
+    const { messages } = answer_job.records[0]!;
+    expect(messages.map((m) => m.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+    ]);
+    expect(messages[1]!.content).toContain('"search a"');
+    expect(messages[2]!.content).toBe(
+      '[[ ## answer ## ]]\n"A"\n\n[[ ## completed ## ]]\n'
+    );
+
+    expect(compiled.answer.lm).toBeInstanceOf(EchoLM);
+    expect(compiled.answer.lm).not.toBe(lm);
+    expect(compiled.generate_query.lm).not.toBe(compiled.answer.lm);
+  });
+
+  test("shares a file and an LM between the predictors of an LM in multitask mode", async () => {
+    const compiled = await new BootstrapFinetune({
+      provider,
+      multitask: true,
+      data_dir,
+    }).compile(new QA(), { trainset });
+
+    expect(provider.jobs).toHaveLength(1);
+    expect(provider.jobs[0]!.train_data_path).toBe(
+      join(data_dir, "multitask_0.jsonl")
+    );
+    // Without a metric every run is kept
+    expect(provider.jobs[0]!.records).toHaveLength(6);
+    expect(compiled.answer.lm).toBe(compiled.generate_query.lm);
+  });
+
+  test("leaves the demos out of the data and the compiled program with exclude_demos", async () => {
+    const student = new QA();
+    student.answer.demos = [
+      new Example({ question: "z", query: "search z", answer: "Z" }),
+    ];
+
+    const compiled = await new BootstrapFinetune({
+      provider,
+      exclude_demos: true,
+      data_dir,
+    }).compile(student, { trainset });
+
+    for (const { records } of provider.jobs) {
+      for (const { messages } of records) {
+        expect(messages).toHaveLength(3);
+      }
+    }
+    expect(compiled.answer.demos).toEqual([]);
+    expect(student.answer.demos).toHaveLength(1);
+  });
+
+  test("describes the tools of the predictors", async () => {
+    class Weather extends Module {
+      public answer = new Predict(
+        new Signature({
+          input: z.object({ question: z.string() }),
+          output: z.object({ answer: z.string() }),
+          tools: {
+            weather: tool({
+              description: "Gets the weather of a city",
+              inputSchema: z.object({ city: z.string() }),
+              execute: async () => "sunny",
+            }),
+          },
+        })
+      );
+
+      async forward(input: { question: string }) {
+        return await this.answer.run(input);
+      }
+    }
+
+    await new BootstrapFinetune({ provider, data_dir }).compile(new Weather(), {
+      trainset: trainset.slice(0, 1),
+    });
+
+    const [record] = provider.jobs[0]!.records;
+    expect(record!.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "weather",
+          description: "Gets the weather of a city",
+          parameters: expect.objectContaining({
+            type: "object",
+            properties: { city: { type: "string" } },
+          }),
+        },
+      },
+    ]);
+  });
+
+  test("throws when no run passes the metric", async () => {
+    await expect(
+      new BootstrapFinetune({
+        metric: () => false,
+        provider,
+        data_dir,
+      }).compile(new QA(), { trainset })
+    ).rejects.toThrow("no teacher run passed the metric");
+  });
+
+  test("rejects a compiled student", async () => {
+    const student = new QA();
+    student._compiled = true;
+    await expect(
+      new BootstrapFinetune({ provider, data_dir }).compile(student, {
+        trainset,
+      })
+    ).rejects.toThrow("The student program should not be compiled");
+  });
+});
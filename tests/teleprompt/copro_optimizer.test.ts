@@ -0,0 +1,147 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { COPRO } from "../../src/teleprompt/copro_optimizer";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Only answers correctly when instructed to answer in uppercase, which it proposes once it has
+ * seen previous attempts.
+ */
+class TaskLM extends MockLM {
+  override async generateText(options: any) {
+    const system: string = options.messages[0].content;
+    const content: string = options.messages.at(-1).content;
+
+    if (system.includes("`attempted_instructions`")) {
+      this.responses.push(
+        "[[ ## proposed_instruction ## ]]\nAnswer in UPPERCASE.\n\n" +
+          "[[ ## proposed_prefix_for_output_field ## ]]\nFinal Answer:\n\n[[ ## completed ## ]]"
+      );
+    } else if (system.includes("`basic_instruction`")) {
+      this.responses.push(
+        '[[ ## proposed_instruction ## ]]\n"Answer briefly."\n\n' +
+          "[[ ## proposed_prefix_for_output_field ## ]]\nShort Answer:\n\n[[ ## completed ## ]]"
+      );
+    } else {
+      const question = JSON.parse(
+        content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+      );
+      const answer = system.includes("UPPERCASE")
+        ? question.toUpperCase()
+        : question;
+      this.responses.push(
+        `[[ ## answer ## ]]\n${answer}\n\n[[ ## completed ## ]]`
+      );
+    }
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("COPRO", () => {
+  const path = join(tmpdir(), `copro_${process.pid}.json`);
+  let lm: TaskLM;
+
+  beforeEach(() => {
+    lm = new TaskLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("refines instructions and prefixes over the iterations", async () => {
+    const student = new Answer();
+    const compiled = await new COPRO({
+      metric: exact_match,
+      breadth: 2,
+      depth: 2,
+    }).compile(student, { trainset, eval_kwargs: { num_threads: 2 } });
+
+    expect(compiled.answer.signature.instructions).toBe("Answer in UPPERCASE.");
+    expect(compiled.answer.signature.prefixes.answer).toBe("Final Answer:");
+    expect(compiled._compiled).toBe(true);
+    expect(student.answer.signature.instructions).not.toContain("UPPERCASE");
+
+    // One proposal and the original instructions, then two identical proposals
+    expect(compiled.total_calls).toBe(4);
+    expect(
+      compiled.candidate_programs.map(({ instruction, score, depth }) => ({
+        instruction,
+        score,
+        depth,
+      }))
+    ).toEqual([
+      { instruction: "Answer in UPPERCASE.", score: 100, depth: 1 },
+      { instruction: "Answer briefly.", score: 0, depth: 0 },
+      {
+        instruction: student.answer.signature.instructions!,
+        score: 0,
+        depth: 0,
+      },
+    ]);
+
+    // The attempts are shown in increasing order of score
+    const refinement = lm.calls.find((call) =>
+      call.messages[0].content.includes("`attempted_instructions`")
+    );
+    expect(refinement.messages.at(-1).content).toContain(
+      "Resulting Score #2: 0"
+    );
+  });
+
+  test("saves the instructions and prefixes in DSPy's layout", async () => {
+    const compiled = await new COPRO({
+      metric: exact_match,
+      breadth: 2,
+      depth: 2,
+    }).compile(new Answer(), { trainset });
+    await compiled.save(path);
+
+    const state = await Bun.file(path).json();
+    expect(state.answer.signature).toEqual({
+      instructions: "Answer in UPPERCASE.",
+      fields: [
+        { prefix: "Question:", description: "" },
+        { prefix: "Final Answer:", description: "" },
+      ],
+    });
+
+    const loaded = new Answer();
+    await loaded.load(path);
+    expect(loaded.answer.signature.prefixes.answer).toBe("Final Answer:");
+    expect(loaded.answer.signature.instructions).toBe("Answer in UPPERCASE.");
+  });
+
+  test("requires a breadth greater than 1", () => {
+    expect(() => new COPRO({ metric: exact_match, breadth: 1 })).toThrow(
+      "Breadth must be greater than 1"
+    );
+  });
+});
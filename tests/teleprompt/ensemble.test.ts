@@ -0,0 +1,135 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { Ensemble } from "../../src/teleprompt/ensemble";
+import { majority } from "../../src/predict/aggregation";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { BootstrapFewShot } from "../../src/teleprompt/bootstrap";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Answers what the instructions say to.
+ */
+class TaskLM extends MockLM {
+  override async generateText(options: any) {
+    const system: string = options.messages[0].content;
+    const answer = system.match(/Say ([^\n]*)/)![1]!;
+    this.responses.push(
+      `[[ ## answer ## ]]\n${answer}\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  constructor(instructions: string) {
+    super();
+    this.answer.signature =
+      this.answer.signature.withInstructions(instructions);
+  }
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+describe("Ensemble", () => {
+  const path = join(tmpdir(), `ensemble_${process.pid}.json`);
+  let lm: TaskLM;
+  const programs = () =>
+    ["Say Paris.", "Say London.", "Say paris!"].map((i) => new Answer(i));
+
+  beforeEach(() => {
+    lm = new TaskLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+  });
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("reduces the predictions of every program", async () => {
+    const ensemble = await new Ensemble().compile(programs());
+    const prediction = await ensemble.run({ question: "Capital of France?" });
+
+    expect(prediction.answer).toBe("Paris.");
+    expect(lm.calls).toHaveLength(3);
+  });
+
+  test("runs a random subset of the programs", async () => {
+    const seen: number[] = [];
+    const ensemble = await new Ensemble({
+      size: 2,
+      reduce_fn: (predictions) => {
+        seen.push(predictions.length);
+        return majority(predictions);
+      },
+    }).compile(programs());
+
+    await ensemble.run({ question: "Capital of France?" });
+    await ensemble.run({ question: "Capital of France?" });
+    expect(seen).toEqual([2, 2]);
+    expect(lm.calls).toHaveLength(4);
+
+    await expect(new Ensemble({ size: 4 }).compile(programs())).rejects.toThrow(
+      "Cannot run 4 programs of an ensemble of 3"
+    );
+  });
+
+  test("saves the state of each program", async () => {
+    const ensemble = await new Ensemble().compile(programs());
+    expect(ensemble.named_predictors().map(({ name }) => name)).toEqual([
+      "programs[0].answer",
+      "programs[1].answer",
+      "programs[2].answer",
+    ]);
+    await ensemble.save(path);
+
+    const loaded = await new Ensemble().compile(
+      [1, 2, 3].map(() => new Answer("Say nothing."))
+    );
+    await loaded.load(path);
+    expect(loaded.programs[1]!.answer.signature.instructions).toBe(
+      "Say London."
+    );
+  });
+
+  test("saves the demos of compiled programs", async () => {
+    const trainset = [
+      new Example({ question: "q0", answer: "a0" }).withInputs("question"),
+      new Example({ question: "q1", answer: "a1" }).withInputs("question"),
+    ];
+    const compiled = await Promise.all(
+      [new Answer("Say Paris."), new Predict("question -> answer")].map(
+        (program) =>
+          new BootstrapFewShot({ max_bootstrapped_demos: 0 }).compile(program, {
+            trainset,
+          })
+      )
+    );
+    expect(compiled.every((program) => program._compiled)).toBe(true);
+
+    const ensemble = await new Ensemble().compile<Module<any>>(compiled);
+    await ensemble.save(path);
+
+    const state = await Bun.file(path).json();
+    expect(Object.keys(state)).toEqual(["programs[0].answer", "programs[1]"]);
+
+    const loaded = await new Ensemble().compile<Module<any>>([
+      new Answer("Say nothing."),
+      new Predict("question -> answer"),
+    ]);
+    await loaded.load(path);
+    const [answer, predict] = loaded.programs as [Answer, Predict<any>];
+    expect(answer.answer.demos).toHaveLength(2);
+    expect(predict.demos).toHaveLength(2);
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { GEPA } from "../../src/teleprompt/gepa/gepa";
+import {
+  extract_instruction_text,
+  format_samples,
+} from "../../src/teleprompt/gepa/instruction_proposal";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Echoes the question, in uppercase when instructed to.
+ */
+class TaskLM extends MockLM {
+  override async generateText(options: any) {
+    const system: string = options.messages[0].content;
+    const content: string = options.messages.at(-1).content;
+    const question = JSON.parse(
+      content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+    );
+    const answer = system.includes("UPPERCASE")
+      ? question.toUpperCase()
+      : question;
+    this.responses.push(
+      `[[ ## answer ## ]]\n${answer}\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+function metric_with_feedback(
+  example: Example<any>,
+  prediction: Prediction<any, any>
+) {
+  const correct = example.answer === prediction.answer;
+  return {
+    score: correct ? 1 : 0,
+    feedback: correct
+      ? "Correct."
+      : `Expected ${example.answer}, the answer must be in uppercase.`,
+  };
+}
+
+describe("GEPA", () => {
+  const log_dir = join(tmpdir(), `gepa_${process.pid}`);
+  let reflection_lm: MockLM;
+
+  beforeEach(() => {
+    configure({ lm: new TaskLM(), adapter: new ChatAdapter(false) });
+    reflection_lm = new MockLM([
+      "Here it is:\n```text\nAnswer in UPPERCASE.\n```",
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(log_dir, { recursive: true, force: true });
+  });
+
+  test("requires exactly one budget", () => {
+    expect(
+      () => new GEPA({ metric: metric_with_feedback, reflection_lm })
+    ).toThrow(
+      "Exactly one of max_metric_calls, max_full_evals, auto must be set."
+    );
+    expect(
+      () =>
+        new GEPA({
+          metric: metric_with_feedback,
+          reflection_lm,
+          auto: "light",
+          max_metric_calls: 10,
+        })
+    ).toThrow();
+  });
+
+  test("requires a predictor to optimize", async () => {
+    const frozen = new Answer();
+    frozen._compiled = true;
+    class Wrapper extends Module {
+      public inner = frozen;
+
+      async forward(input: { question: string }) {
+        return await this.inner.run(input);
+      }
+    }
+
+    await expect(
+      new GEPA({
+        metric: metric_with_feedback,
+        reflection_lm,
+        max_metric_calls: 12,
+      }).compile(new Wrapper(), { trainset })
+    ).rejects.toThrow(
+      "GEPA requires a program with at least one predictor that is not compiled"
+    );
+    expect(reflection_lm.calls).toHaveLength(0);
+  });
+
+  test("proposes instructions from the metric feedback", async () => {
+    const student = new Answer();
+    const compiled = await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 12,
+    }).compile(student, { trainset });
+
+    expect(compiled.answer.signature.instructions).toBe("Answer in UPPERCASE.");
+    expect(compiled._compiled).toBe(true);
+    expect(student.answer.signature.instructions).not.toContain("UPPERCASE");
+
+    expect(reflection_lm.calls).toHaveLength(1);
+    const prompt: string = reflection_lm.calls[0].messages[0].content;
+    expect(prompt).toContain(student.answer.signature.instructions!);
+    expect(prompt).toContain("# Example 1\n## Inputs\n### question\n");
+    expect(prompt).toContain("## Generated Outputs\n### answer\n");
+    expect(prompt).toContain(
+      "## Feedback\nExpected A, the answer must be in uppercase."
+    );
+  });
+
+  test("falls back to the score as feedback", async () => {
+    await new GEPA({
+      metric: (example, prediction) => example.answer === prediction.answer,
+      reflection_lm,
+      max_metric_calls: 12,
+    }).compile(new Answer(), { trainset });
+
+    expect(reflection_lm.calls[0].messages[0].content).toContain(
+      "## Feedback\nThis trajectory got a score of 0."
+    );
+  });
+
+  test("calls the metric once per run", async () => {
+    let metric_calls = 0;
+    const compiled = await new GEPA({
+      metric: (example, prediction) => {
+        metric_calls++;
+        return metric_with_feedback(example, prediction);
+      },
+      reflection_lm,
+      max_metric_calls: 12,
+      track_stats: true,
+    }).compile(new Answer(), { trainset });
+
+    expect(metric_calls).toBe(12);
+    expect(compiled.detailed_results!.total_metric_calls).toBe(12);
+  });
+
+  test("reflects on failed runs with the error", async () => {
+    class FailingLM extends TaskLM {
+      override async generateText(options: any) {
+        if (options.messages.at(-1).content.includes('"c"')) {
+          throw new Error("The LM is down.");
+        }
+        return super.generateText(options);
+      }
+    }
+    configure({ lm: new FailingLM(), adapter: new ChatAdapter(false) });
+
+    await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 12,
+    }).compile(new Answer(), { trainset });
+
+    const prompt: string = reflection_lm.calls[0].messages[0].content;
+    expect(prompt).toContain(
+      "## Inputs\n### question\nc\n\n## Generated Outputs\nThe LM is down.\n\n" +
+        "## Feedback\nThe program failed with an error: The LM is down."
+    );
+  });
+
+  test("exposes the candidate tree with track_stats", async () => {
+    const compiled = await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 12,
+      track_stats: true,
+    }).compile(new Answer(), { trainset });
+
+    const results = compiled.detailed_results!;
+    expect(results.parents).toEqual([[null], [0]]);
+    expect(results.val_subscores).toEqual([
+      [0, 0, 0],
+      [1, 1, 1],
+    ]);
+    expect(results.val_aggregate_scores).toEqual([0, 1]);
+    expect(results.per_val_instance_best_candidates).toEqual([[1], [1], [1]]);
+    expect(results.best_idx).toBe(1);
+    expect(results.best_candidate).toEqual({ answer: "Answer in UPPERCASE." });
+    expect(results.candidates[1]!.answer.signature.instructions).toBe(
+      "Answer in UPPERCASE."
+    );
+    // The seed evaluation, the minibatch before and after reflection, and the new candidate
+    expect(results.total_metric_calls).toBe(12);
+    expect(results.num_full_val_evals).toBe(2);
+    expect(results.discovery_eval_counts).toEqual([0, 12]);
+  });
+
+  test("keeps candidates that are not improvements out of the pool", async () => {
+    reflection_lm = new MockLM(["```\nAnswer briefly.\n```"]);
+    const compiled = await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 9,
+      track_stats: true,
+    }).compile(new Answer(), { trainset });
+
+    expect(compiled.detailed_results!.candidates).toHaveLength(1);
+    expect(compiled.answer.signature.instructions).not.toBe("Answer briefly.");
+  });
+
+  test("resumes from the state in log_dir", async () => {
+    await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 12,
+      log_dir,
+    }).compile(new Answer(), { trainset });
+
+    const state = await Bun.file(join(log_dir, "gepa_state.json")).json();
+    expect(state.candidates).toHaveLength(2);
+    expect(state.iteration).toBe(1);
+
+    // The best candidate is perfect on the next minibatch, so the reflection LM isn't called
+    const resumed_lm = new MockLM();
+    const compiled = await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm: resumed_lm,
+      max_metric_calls: 15,
+      log_dir,
+      track_stats: true,
+    }).compile(new Answer(), { trainset });
+
+    expect(resumed_lm.calls).toHaveLength(0);
+    expect(compiled.answer.signature.instructions).toBe("Answer in UPPERCASE.");
+    expect(compiled.detailed_results!.total_metric_calls).toBe(15);
+    expect(
+      (await Bun.file(join(log_dir, "gepa_state.json")).json()).iteration
+    ).toBe(2);
+  });
+
+  test("refuses to resume with another valset or other predictors", async () => {
+    await new GEPA({
+      metric: metric_with_feedback,
+      reflection_lm,
+      max_metric_calls: 12,
+      log_dir,
+    }).compile(new Answer(), { trainset });
+
+    const resume = (student: Module<any>, valset: Example<any>[]) =>
+      new GEPA({
+        metric: metric_with_feedback,
+        reflection_lm: new MockLM(),
+        max_metric_calls: 15,
+        log_dir,
+      }).compile(student, { trainset, valset });
+
+    await expect(resume(new Answer(), trainset.slice(0, 2))).rejects.toThrow(
+      "was saved for a valset of 3 examples, not 2."
+    );
+
+    class Rewrite extends Module {
+      public rewrite = new Predict("question -> answer");
+
+      async forward(input: { question: string }) {
+        return await this.rewrite.run(input);
+      }
+    }
+    await expect(resume(new Rewrite(), trainset)).rejects.toThrow(
+      'was saved for the predictors ["answer"], not ["rewrite"].'
+    );
+  });
+
+  test("keeps candidates best on any example on the Pareto front", async () => {
+    // Each candidate is only right on one example
+    const per_example_lm = new MockLM(["```\nAnswer in UPPERCASE.\n```"]);
+    const compiled = await new GEPA({
+      metric: (example, prediction) => ({
+        score:
+          example.question === "a"
+            ? Number(prediction.answer === "a")
+            : Number(prediction.answer === example.answer),
+        feedback: "",
+      }),
+      reflection_lm: per_example_lm,
+      max_metric_calls: 12,
+      reflection_minibatch_size: 2,
+      track_stats: true,
+    }).compile(new Answer(), { trainset });
+
+    const results = compiled.detailed_results!;
+    expect(results.val_subscores).toEqual([
+      [1, 0, 0],
+      [0, 1, 1],
+    ]);
+    expect(results.per_val_instance_best_candidates).toEqual([[0], [1], [1]]);
+    expect(results.best_idx).toBe(1);
+  });
+});
+
+describe("instruction proposal", () => {
+  test("formats the reflective dataset as markdown", () => {
+    expect(
+      format_samples([
+        {
+          Inputs: { question: "a", context: ["x", "y"] },
+          "Generated Outputs": { answer: "a" },
+          Feedback: "Use uppercase.",
+        },
+      ])
+    ).toBe(
+      "# Example 1\n## Inputs\n### question\na\n\n### context\n#### Item 1\nx\n\n#### Item 2\ny\n\n" +
+        "## Generated Outputs\n### answer\na\n\n## Feedback\nUse uppercase.\n\n"
+    );
+  });
+
+  test("extracts the instruction from the response", () => {
+    expect(extract_instruction_text("```\nBe brief.\n```")).toBe("Be brief.");
+    expect(extract_instruction_text("Sure!\n```markdown\nBe brief.\n```")).toBe(
+      "Be brief."
+    );
+    expect(extract_instruction_text("Be brief.")).toBe("Be brief.");
+    expect(extract_instruction_text("```\nBe brief.")).toBe("Be brief.");
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { MockEmbeddingModelV3 } from "ai/test";
+import { KNNFewShot } from "../../src/teleprompt/knn_fewshot";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+const TOPICS = ["math", "history", "cooking"];
+
+function topic_model() {
+  return new MockEmbeddingModelV3({
+    maxEmbeddingsPerCall: null,
+    doEmbed: async ({ values }) => ({
+      embeddings: values.map((value) =>
+        TOPICS.map((topic) => (value.includes(topic) ? 1 : 0.1))
+      ),
+      warnings: [],
+    }),
+  });
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = [
+  "math: 2+2?",
+  "history: when did Rome fall?",
+  "cooking: how long to boil an egg?",
+  "math: 3*3?",
+].map((question, i) =>
+  new Example({ question, answer: `a${i}` }).withInputs("question")
+);
+
+/**
+ * The prompt of an LM call, with the demos.
+ */
+function prompt(call: any): string {
+  return call.messages.map((m: any) => m.content).join("\n");
+}
+
+describe("KNNFewShot", () => {
+  const path = join(tmpdir(), `knn_fewshot_${process.pid}.json`);
+  let lm: MockLM;
+
+  beforeEach(() => {
+    lm = new MockLM();
+    configure({ lm, adapter: new ChatAdapter() });
+  });
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("uses the nearest examples as the demos of each call", async () => {
+    const student = new Answer();
+    const compiled = await new KNNFewShot({
+      k: 2,
+      trainset,
+      vectorizer: topic_model(),
+    }).compile(student);
+    expect(compiled._compiled).toBe(true);
+
+    lm.responses.push(
+      "[[ ## answer ## ]]\n2\n\n[[ ## completed ## ]]",
+      "[[ ## answer ## ]]\nroux\n\n[[ ## completed ## ]]"
+    );
+    const math = await compiled.run({ question: "math: 1+1?" });
+    const cooking = await compiled.run({ question: "cooking: a roux?" });
+    expect(math.answer).toBe("2");
+    expect(cooking.answer).toBe("roux");
+
+    const [math_prompt, cooking_prompt] = lm.calls.map(prompt);
+    expect(math_prompt).toContain("math: 2+2?");
+    expect(math_prompt).toContain("math: 3*3?");
+    expect(math_prompt).not.toContain("history: when did Rome fall?");
+    expect(cooking_prompt).toContain("cooking: how long to boil an egg?");
+
+    // The demos are only set for the call
+    expect(compiled.answer.demos).toEqual([]);
+    expect(student.answer.demos).toEqual([]);
+  });
+
+  test("passes the neighbors as demos to a bare predictor", async () => {
+    const student = new Predict("question -> answer");
+    const compiled = await new KNNFewShot({
+      k: 1,
+      trainset,
+      vectorizer: topic_model(),
+    }).compile(student);
+
+    lm.responses.push("[[ ## answer ## ]]\nroux\n\n[[ ## completed ## ]]");
+    const cooking = await compiled.run({ question: "cooking: a roux?" });
+    expect(cooking.answer).toBe("roux");
+
+    expect(lm.calls[0].messages.length).toBeGreaterThan(2);
+    expect(prompt(lm.calls[0])).toContain("cooking: how long to boil an egg?");
+    expect(compiled.demos).toEqual([]);
+    expect(student.demos).toEqual([]);
+  });
+
+  test("bootstraps demos from the neighbors", async () => {
+    const compiled = await new KNNFewShot({
+      k: 1,
+      trainset,
+      vectorizer: topic_model(),
+      few_shot_bootstrap_args: { max_bootstrapped_demos: 1 },
+    }).compile(new Answer());
+
+    lm.responses.push(
+      "[[ ## answer ## ]]\nbootstrapped\n\n[[ ## completed ## ]]",
+      "[[ ## answer ## ]]\n2\n\n[[ ## completed ## ]]"
+    );
+    await compiled.run({ question: "math: 1+1?" });
+
+    expect(lm.calls).toHaveLength(2);
+    expect(prompt(lm.calls[1])).toContain("bootstrapped");
+  });
+
+  test("saves the index with the program", async () => {
+    const compiled = await new KNNFewShot({
+      k: 1,
+      trainset,
+      vectorizer: topic_model(),
+    }).compile(new Answer());
+    await compiled.run({ question: "math: 1+1?" });
+    await compiled.save(path);
+
+    const state = await Bun.file(path).json();
+    expect(state.answer.demos).toEqual([]);
+    expect(state.knn.trainset_vectors).toHaveLength(4);
+
+    const vectorizer = topic_model();
+    const loaded = await new KNNFewShot({
+      k: 1,
+      trainset,
+      vectorizer,
+    }).compile(new Answer());
+    await loaded.load(path);
+    await loaded.run({ question: "history: who was Caesar?" });
+
+    expect(vectorizer.doEmbedCalls).toHaveLength(1);
+    expect(prompt(lm.calls.at(-1))).toContain("history: when did Rome fall?");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { MIPROv2 } from "../../src/teleprompt/mipro_optimizer_v2";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Proposes an instruction asking for uppercase answers, and only answers correctly when
+ * instructed to.
+ */
+class TaskLM extends MockLM {
+  override async generateText(options: any) {
+    const system: string = options.messages[0].content;
+    const content: string = options.messages.at(-1).content;
+    const fields = [...content.matchAll(/`\[\[ ## (\w+) ## \]\]`/g)]
+      .map((m) => m[1]!)
+      .filter((field) => field !== "completed");
+
+    const question = content.match(/\[\[ ## question ## \]\]\n(.*)/)?.[1];
+    const values: Record<string, string> = {
+      proposed_instruction: "Answer the question in UPPERCASE.",
+      answer: system.includes("UPPERCASE")
+        ? JSON.parse(question!).toUpperCase()
+        : "unknown",
+    };
+
+    this.responses.push(
+      fields
+        .map((field) => `[[ ## ${field} ## ]]\n${values[field] ?? "notes"}`)
+        .join("\n\n") + "\n\n[[ ## completed ## ]]"
+    );
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c", "d", "e", "f"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("MIPROv2", () => {
+  const path = join(tmpdir(), `mipro_${process.pid}.json`);
+
+  beforeEach(() => {
+    configure({ lm: new TaskLM(), adapter: new ChatAdapter(false) });
+  });
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("finds a better instruction and persists it with save()", async () => {
+    const student = new Answer();
+    const compiled = await new MIPROv2({
+      metric: exact_match,
+      auto: null,
+      num_candidates: 2,
+      max_bootstrapped_demos: 0,
+      max_labeled_demos: 0,
+    }).compile(student, { trainset, num_trials: 3, minibatch: false });
+
+    expect(compiled.score).toBe(100);
+    expect(compiled._compiled).toBe(true);
+    expect(compiled.answer.signature.instructions).toBe(
+      "Answer the question in UPPERCASE."
+    );
+    expect(student.answer.signature.instructions).not.toContain("UPPERCASE");
+
+    // The default program is the first trial
+    expect(compiled.trial_logs[0]).toEqual({
+      trial: 0,
+      instructions: [0],
+      demos: null,
+      score: 0,
+      full_eval: true,
+    });
+    expect(compiled.trial_logs).toHaveLength(4);
+    expect(compiled.candidate_programs[0]!.score).toBe(100);
+    expect(compiled.mb_candidate_programs).toEqual([]);
+    // Two thirds of the trainset are held out for validation
+    expect(compiled.total_calls).toBe(4 * 4);
+
+    await compiled.save(path);
+    const loaded = new Answer();
+    await loaded.load(path);
+    expect(loaded.answer.signature.instructions).toBe(
+      "Answer the question in UPPERCASE."
+    );
+  });
+
+  test("scores minibatches and periodically evaluates the best on the full valset", async () => {
+    const compiled = await new MIPROv2({
+      metric: exact_match,
+      auto: null,
+      num_candidates: 3,
+      max_bootstrapped_demos: 1,
+      max_labeled_demos: 1,
+    }).compile(new Answer(), {
+      trainset,
+      num_trials: 4,
+      minibatch_size: 2,
+      minibatch_full_eval_steps: 2,
+    });
+
+    const trials = compiled.trial_logs.slice(1);
+    expect(trials.filter((t) => !t.full_eval)).toHaveLength(4);
+    // Full evaluations after trials 2 and 4
+    expect(trials.filter((t) => t.full_eval).map((t) => t.trial)).toEqual([
+      2, 4,
+    ]);
+    expect(trials.every((t) => t.demos !== null)).toBe(true);
+    expect(compiled.mb_candidate_programs).toHaveLength(4);
+    expect(compiled.total_calls).toBe(4 + 4 * 2 + 2 * 4);
+    expect(compiled.answer.demos.length).toBeLessThanOrEqual(1);
+  });
+
+  test("validates its settings", async () => {
+    const optimizer = new MIPROv2({ metric: exact_match });
+    await expect(
+      optimizer.compile(new Answer(), { trainset, num_trials: 3 })
+    ).rejects.toThrow("If auto is not null");
+
+    await expect(
+      new MIPROv2({ metric: exact_match, auto: null }).compile(new Answer(), {
+        trainset,
+      })
+    ).rejects.toThrow("If auto is null");
+
+    await expect(optimizer.compile(new Answer(), { trainset })).rejects.toThrow(
+      "Minibatch size cannot exceed the size of the valset"
+    );
+  });
+});
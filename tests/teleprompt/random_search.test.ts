@@ -0,0 +1,124 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { BootstrapFewShotWithRandomSearch } from "../../src/teleprompt/random_search";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+/**
+ * Answers correctly only when the prompt has at least `min_demos` demos.
+ */
+class DemoCountLM extends MockLM {
+  constructor(public min_demos: number) {
+    super();
+  }
+
+  override async generateText(options: any) {
+    const content: string = options.messages.at(-1).content;
+    const question: string = JSON.parse(
+      content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+    );
+    const num_demos = (options.messages.length - 2) / 2;
+    const answer =
+      num_demos >= this.min_demos ? question.toUpperCase() : "unknown";
+    this.responses.push(
+      `[[ ## answer ## ]]\n${answer}\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c", "d"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("BootstrapFewShotWithRandomSearch", () => {
+  beforeEach(() => {
+    configure({ lm: new DemoCountLM(1), adapter: new ChatAdapter(false) });
+  });
+
+  test("evaluates the baselines and shuffled candidates and returns the best", async () => {
+    const student = new Answer();
+    const compiled = await new BootstrapFewShotWithRandomSearch({
+      metric: exact_match,
+      num_candidate_programs: 2,
+      max_labeled_demos: 2,
+    }).compile(student, { trainset });
+
+    const candidates = compiled.candidate_programs;
+    expect(candidates.map((c) => c.seed).sort()).toEqual([-1, -2, -3, 0, 1]);
+    expect(candidates.map((c) => c.score)).toEqual(
+      [...candidates.map((c) => c.score)].sort((a, b) => b - a)
+    );
+
+    const zero_shot = candidates.find((c) => c.seed === -3)!;
+    expect(zero_shot.score).toBe(0);
+    expect(zero_shot.subscores).toEqual([0, 0, 0, 0]);
+    expect(zero_shot.program.answer.demos).toEqual([]);
+
+    expect(candidates[0]!.program).toBe(compiled);
+    expect(candidates[0]!.score).toBe(100);
+    expect(compiled.answer.demos.length).toBeGreaterThan(0);
+    expect(student.answer.demos).toEqual([]);
+  });
+
+  test("uses the valset and restricts the seeds", async () => {
+    const valset = trainset.slice(0, 1);
+    const compiled = await new BootstrapFewShotWithRandomSearch({
+      metric: exact_match,
+    }).compile(new Answer(), { trainset, valset, restrict: [-3, -2] });
+
+    expect(compiled.candidate_programs.map((c) => c.seed)).toEqual([-2, -3]);
+    expect(compiled.candidate_programs[0]!.subscores).toEqual([1]);
+  });
+
+  test("stops once a candidate reaches stop_at_score", async () => {
+    const compiled = await new BootstrapFewShotWithRandomSearch({
+      metric: exact_match,
+      num_candidate_programs: 4,
+      stop_at_score: 100,
+    }).compile(new Answer(), { trainset });
+
+    expect(compiled.candidate_programs.map((c) => c.seed)).toEqual([-2, -3]);
+  });
+
+  test("evaluates validation examples concurrently", async () => {
+    let running = 0;
+    let max_running = 0;
+    const metric = async (
+      example: Example<any>,
+      prediction: Prediction<any, any>
+    ) => {
+      running++;
+      max_running = Math.max(max_running, running);
+      await Bun.sleep(1);
+      running--;
+      return exact_match(example, prediction);
+    };
+
+    await new BootstrapFewShotWithRandomSearch({
+      metric,
+      num_candidate_programs: 0,
+      num_threads: 3,
+    }).compile(new Answer(), { trainset, restrict: [-3] });
+
+    expect(max_running).toBe(3);
+  });
+});
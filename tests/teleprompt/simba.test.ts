@@ -0,0 +1,176 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { SIMBA } from "../../src/teleprompt/simba";
+import { inspect_modules } from "../../src/teleprompt/simba_utils";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { AdapterParseError } from "../../src/exceptions";
+import { MockLM } from "../test_utils";
+
+/**
+ * Answers in uppercase when sampled hot, when instructed to, or when given demos.
+ */
+class TaskLM extends MockLM {
+  public temperatures: (number | undefined)[] = [];
+
+  override async generateText(options: any) {
+    const temperature = options.temperature ?? this.config.temperature;
+    this.temperatures.push(temperature);
+
+    const system: string = options.messages[0].content;
+    const content: string = options.messages.at(-1).content;
+    const question = JSON.parse(
+      content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]!
+    );
+    const uppercase =
+      (temperature ?? 0) >= 0.5 ||
+      system.includes("UPPERCASE") ||
+      options.messages.length > 2;
+    this.responses.push(
+      `[[ ## answer ## ]]\n${
+        uppercase ? question.toUpperCase() : question
+      }\n\n[[ ## completed ## ]]`
+    );
+    return super.generateText(options);
+  }
+}
+
+class Answer extends Module {
+  public answer = new Predict("question -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    return await this.answer.run(input);
+  }
+}
+
+const trainset = ["a", "b", "c", "d"].map((question) =>
+  new Example({ question, answer: question.toUpperCase() }).withInputs(
+    "question"
+  )
+);
+
+function exact_match(example: Example<any>, prediction: Prediction<any, any>) {
+  return example.answer === prediction.answer;
+}
+
+describe("SIMBA", () => {
+  let lm: TaskLM;
+  let prompt_model: MockLM;
+
+  beforeEach(() => {
+    lm = new TaskLM();
+    configure({ lm, adapter: new ChatAdapter(false) });
+    prompt_model = new MockLM(
+      Array.from(
+        { length: 10 },
+        () =>
+          "[[ ## discussion ## ]]\nThe worse run answered in lowercase.\n\n" +
+          '[[ ## module_advice ## ]]\n{"answer": "Answer in UPPERCASE."}\n\n[[ ## completed ## ]]'
+      )
+    );
+  });
+
+  test("improves the program from its most variable examples", async () => {
+    const student = new Answer();
+    const compiled = await new SIMBA({
+      metric: exact_match,
+      bsize: 2,
+      num_candidates: 2,
+      max_steps: 2,
+      prompt_model,
+    }).compile(student, { trainset });
+
+    expect(compiled._compiled).toBe(true);
+    expect(compiled.candidate_programs[0]!.score).toBe(1);
+    expect(compiled.candidate_programs.at(-1)!.score).toBe(0);
+    const { demos, signature } = compiled.answer;
+    expect(
+      demos.length > 0 || signature.instructions!.includes("UPPERCASE")
+    ).toBe(true);
+    expect(student.answer.demos).toEqual([]);
+
+    // Every example is sampled at the LM's temperature and a hotter one
+    expect(compiled.trial_logs).toHaveLength(2);
+    expect(compiled.trial_logs[0]!.batch_scores).toEqual([0, 0, 1, 1]);
+    for (const log of compiled.trial_logs) {
+      expect(log.batch_scores).toHaveLength(4);
+      expect(log.candidate_scores.length).toBeGreaterThan(0);
+    }
+    expect(new Set(lm.temperatures)).toEqual(new Set([0, 0.5, undefined]));
+    expect(lm.config.temperature).toBeUndefined();
+  });
+
+  test("appends the prompt model's advice to the instructions", async () => {
+    const compiled = await new SIMBA({
+      metric: exact_match,
+      bsize: 2,
+      num_candidates: 2,
+      max_steps: 1,
+      max_demos: 0,
+      prompt_model,
+    }).compile(new Answer(), { trainset });
+
+    expect(compiled.answer.signature.instructions).toEndWith(
+      "\n\nAnswer in UPPERCASE."
+    );
+    expect(compiled.answer.demos).toEqual([]);
+
+    const advice_prompt = prompt_model.calls[0].messages.at(-1).content;
+    expect(advice_prompt).toContain("Module answer");
+    expect(advice_prompt).toContain('\\"module_name\\": \\"answer\\"');
+  });
+
+  test("skips the candidates of unparseable advice", async () => {
+    prompt_model = new MockLM(["I have no advice."]);
+    const optimizer = new SIMBA({
+      metric: exact_match,
+      bsize: 2,
+      num_candidates: 2,
+      max_steps: 1,
+      max_demos: 0,
+      prompt_model,
+    });
+    const compiled = await optimizer.compile(new Answer(), { trainset });
+
+    expect(optimizer.errors.length).toBeGreaterThan(0);
+    expect(optimizer.errors[0]).toBeInstanceOf(AdapterParseError);
+    expect(compiled.trial_logs[0]!.candidate_scores).toEqual([]);
+  });
+
+  test("throws the other errors of a strategy", async () => {
+    const optimizer = new SIMBA({
+      metric: exact_match,
+      bsize: 2,
+      num_candidates: 2,
+      max_steps: 1,
+      prompt_model,
+    });
+    optimizer.strategies = [
+      async () => {
+        throw new TypeError("Cannot read properties of undefined");
+      },
+    ];
+
+    await expect(optimizer.compile(new Answer(), { trainset })).rejects.toThrow(
+      "Cannot read properties of undefined"
+    );
+  });
+
+  test("requires a trainset of at least one mini-batch", async () => {
+    await expect(
+      new SIMBA({ metric: exact_match, bsize: 8 }).compile(new Answer(), {
+        trainset,
+      })
+    ).rejects.toThrow("Trainset too small: 4 < bsize 8");
+  });
+
+  test("inspect_modules describes each predictor", () => {
+    const description = inspect_modules(new Answer());
+    expect(description).toContain("Module answer\n\tInput Fields:");
+    expect(description).toContain("\t\tquestion: ");
+    expect(description).toContain("\tOriginal Instructions: ");
+  });
+});
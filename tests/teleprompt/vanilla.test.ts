@@ -0,0 +1,106 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { LabeledFewShot } from "../../src/teleprompt/vanilla";
+import { Module } from "../../src/primitives/module";
+import { Predict } from "../../src/predict/predict";
+import { Prediction } from "../../src/primitives/prediction";
+import { Example } from "../../src/primitives/example";
+import { configure } from "../../src/settings";
+import { ChatAdapter } from "../../src/adapters/chat_adapter";
+import { MockLM } from "../test_utils";
+
+class QA extends Module {
+  public generate_query = new Predict("question -> query");
+  public answer = new Predict("question, query -> answer");
+
+  async forward(input: { question: string }): Promise<Prediction<any, any>> {
+    const { query } = await this.generate_query.run(input);
+    return await this.answer.run({ ...input, query });
+  }
+}
+
+const trainset = Array.from({ length: 5 }, (_, i) =>
+  new Example({
+    question: `q${i}`,
+    query: `s${i}`,
+    answer: `a${i}`,
+  }).withInputs("question")
+);
+
+describe("LabeledFewShot", () => {
+  const path = join(tmpdir(), `labeled_few_shot_${process.pid}.json`);
+
+  beforeEach(() => {
+    configure({ lm: new MockLM(), adapter: new ChatAdapter() });
+  });
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("assigns k sampled demos to every predictor of a copy", async () => {
+    const student = new QA();
+    const compiled = await new LabeledFewShot(3).compile(student, { trainset });
+
+    expect(compiled).not.toBe(student);
+    expect(compiled._compiled).toBe(true);
+    expect(student._compiled).toBe(false);
+    expect(student.generate_query.demos).toEqual([]);
+    for (const { predictor } of compiled.named_predictors()) {
+      expect(predictor.demos).toHaveLength(3);
+      expect(predictor.demos.every((d) => trainset.includes(d as any))).toBe(
+        true
+      );
+    }
+
+    // Sampling is seeded
+    const again = await new LabeledFewShot(3).compile(student, { trainset });
+    expect(again.answer.demos).toEqual(compiled.answer.demos);
+  });
+
+  test("takes the first k examples without sampling", async () => {
+    const compiled = await new LabeledFewShot(10).compile(new QA(), {
+      trainset,
+      sample: false,
+    });
+    expect(compiled.answer.demos).toEqual(trainset);
+  });
+
+  test("assigns the demos of a bare predictor", async () => {
+    const compiled = await new LabeledFewShot(2).compile(
+      new Predict("question -> answer"),
+      { trainset, sample: false }
+    );
+    expect(compiled.demos).toEqual(trainset.slice(0, 2));
+  });
+
+  test("saves the chosen demos", async () => {
+    const compiled = await new LabeledFewShot(2).compile(new QA(), {
+      trainset,
+      sample: false,
+    });
+    await compiled.save(path);
+
+    const state = await Bun.file(path).json();
+    expect(state.answer.demos).toEqual([
+      { question: "q0", query: "s0", answer: "a0" },
+      { question: "q1", query: "s1", answer: "a1" },
+    ]);
+
+    const loaded = new QA();
+    await loaded.load(path);
+    expect(loaded.generate_query.demos).toEqual(state.generate_query.demos);
+  });
+
+  test("returns an empty copy for an empty trainset", async () => {
+    const student = new QA();
+    student.answer.demos = [{ question: "q", answer: "a" }];
+
+    const compiled = await new LabeledFewShot().compile(student, {
+      trainset: [],
+    });
+    expect(compiled.answer.demos).toEqual([]);
+  });
+});
@@ -6,9 +6,15 @@ import { z } from "zod";
  * MockLM is a dummy language model for testing purposes.
  * It overrides generateText and streamText to return predictable results
  * without making actual API calls.
+ *
+ * Scripted responses can be passed to the constructor; each generateText call
+ * consumes the next one before falling back to the dummy response.
+ * Every call's options are recorded in `calls`.
  */
 export class MockLM extends LM {
-  constructor() {
+  public calls: any[] = [];
+
+  constructor(public responses: string[] = []) {
     // Pass a dummy LanguageModel implementation to the parent constructor
     super({
       specificationVersion: "v1",
@@ -34,8 +40,9 @@ export class MockLM extends LM {
   override async generateText(
     options: any
   ): Promise<GenerateTextResult<any, any>> {
+    this.calls.push(options);
     const inputMessages = this.getMessages(options);
-    let assistantContent = "This is a dummy lm call";
+    let assistantContent = this.responses.shift() ?? "This is a dummy lm call";
 
     const responseMessages = [
       ...inputMessages,
@@ -66,28 +73,14 @@ export class MockLM extends LM {
 
   /**
    * Overrides streamText to return a dummy StreamTextResult.
+   * The response text is emitted in small chunks to simulate token streaming.
    */
   override async streamText(options: any): Promise<StreamTextResult<any, any>> {
+    this.calls.push(options);
     const inputMessages = this.getMessages(options);
-    const assistantContent = "This is a dummy lm call";
-
-    const responseMessages = [
-      ...inputMessages,
-      { role: "assistant", content: assistantContent },
-    ];
-
-    // Create a simple stream that just emits the dummy text
-    const textStream = new ReadableStream({
-      start(controller) {
-        controller.enqueue(assistantContent);
-        controller.close();
-      },
-    });
+    let assistantContent = this.responses.shift() ?? "This is a dummy lm call";
 
     const result: any = {
-      textStream,
-      fullText: assistantContent,
-      responseMessages: Promise.resolve(responseMessages),
       finishReason: Promise.resolve("stop" as const),
       usage: Promise.resolve({
         promptTokens: 0,
@@ -98,17 +91,33 @@ export class MockLM extends LM {
     };
 
     if (options.output) {
-      // Stream results for structured output usually have an outputStream
+      // Structured output streams the object as a single partial
       const dummyObject = this.generateDummyObject(options.output);
-      result.outputStream = new ReadableStream({
+      assistantContent = JSON.stringify(dummyObject);
+      result.partialOutputStream = new ReadableStream({
         start(controller) {
           controller.enqueue(dummyObject);
           controller.close();
         },
       });
-      result.outputPromise = Promise.resolve(dummyObject);
+      result.output = Promise.resolve(dummyObject);
     }
 
+    const chunks = assistantContent.match(/[\s\S]{1,8}/g) ?? [];
+    result.textStream = new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(chunk);
+        }
+        controller.close();
+      },
+    });
+    result.text = Promise.resolve(assistantContent);
+    result.responseMessages = Promise.resolve([
+      ...inputMessages,
+      { role: "assistant", content: assistantContent },
+    ]);
+
     return result;
   }
 
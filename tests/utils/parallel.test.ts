@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { ParallelExecutor } from "../../src/utils/parallel";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("ParallelExecutor", () => {
+  test("keeps the results in order and bounds concurrency", async () => {
+    let running = 0;
+    let max_running = 0;
+    const executor = new ParallelExecutor({ num_threads: 2 });
+
+    const results = await executor.execute(
+      async (item: number) => {
+        running++;
+        max_running = Math.max(max_running, running);
+        await sleep(5 - item);
+        running--;
+        return item * 2;
+      },
+      [1, 2, 3, 4]
+    );
+
+    expect(results).toEqual([2, 4, 6, 8]);
+    expect(max_running).toBe(2);
+  });
+
+  test("returns null for failed items below max_errors", async () => {
+    const executor = new ParallelExecutor({ max_errors: 2 });
+    const results = await executor.execute(
+      async (item: number) => {
+        if (item === 2) throw new Error("boom");
+        return item;
+      },
+      [1, 2, 3]
+    );
+
+    expect(results).toEqual([1, null, 3]);
+  });
+
+  test("cancels the execution once max_errors is reached", async () => {
+    const started: number[] = [];
+    const executor = new ParallelExecutor({ max_errors: 2 });
+
+    await expect(
+      executor.execute(
+        async (item: number) => {
+          started.push(item);
+          throw new Error(`boom ${item}`);
+        },
+        [1, 2, 3, 4]
+      )
+    ).rejects.toThrow("Execution cancelled after 2 errors. Last error: boom 2");
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { Random } from "../../src/utils/random";
+
+describe("Random", () => {
+  test("is deterministic for a seed", () => {
+    const a = new Random(42);
+    const b = new Random(42);
+    const values = Array.from({ length: 5 }, () => a.random());
+
+    expect(Array.from({ length: 5 }, () => b.random())).toEqual(values);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    expect(new Random(1).random()).not.toBe(values[0]);
+  });
+
+  test("sample returns distinct items without modifying the array", () => {
+    const items = [1, 2, 3, 4, 5];
+    const sample = new Random(0).sample(items, 3);
+
+    expect(sample).toHaveLength(3);
+    expect(new Set(sample).size).toBe(3);
+    expect(sample.every((item) => items.includes(item))).toBe(true);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(() => new Random(0).sample(items, 6)).toThrow();
+  });
+
+  test("randint and choice stay in range", () => {
+    const rng = new Random(7);
+    for (let i = 0; i < 50; i++) {
+      const n = rng.randint(-2, 2);
+      expect(n).toBeGreaterThanOrEqual(-2);
+      expect(n).toBeLessThanOrEqual(2);
+      expect(["a", "b"]).toContain(rng.choice(["a", "b"]));
+    }
+  });
+
+  test("choices follows the weights", () => {
+    const rng = new Random(3);
+    const picks = rng.choices(["a", "b", "c"], [0, 1, 3], 400);
+
+    expect(picks).toHaveLength(400);
+    expect(picks).not.toContain("a");
+    const c = picks.filter((p) => p === "c").length;
+    expect(c).toBeGreaterThan(250);
+    expect(c).toBeLessThan(350);
+  });
+
+  test("poisson has the given mean", () => {
+    const rng = new Random(5);
+    const samples = Array.from({ length: 1000 }, () => rng.poisson(2));
+    const mean = samples.reduce((sum, s) => sum + s, 0) / samples.length;
+
+    expect(samples.every((s) => Number.isInteger(s) && s >= 0)).toBe(true);
+    expect(mean).toBeGreaterThan(1.8);
+    expect(mean).toBeLessThan(2.2);
+    expect(rng.poisson(0)).toBe(0);
+  });
+});
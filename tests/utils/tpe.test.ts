@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { TPESampler } from "../../src/utils/tpe";
+
+describe("TPESampler", () => {
+  test("samples randomly during the startup trials", () => {
+    const sampler = new TPESampler({ seed: 1, n_startup_trials: 5 });
+    const params = sampler.sample({ x: 3, y: 2 });
+
+    expect(Object.keys(params)).toEqual(["x", "y"]);
+    expect(params.x).toBeGreaterThanOrEqual(0);
+    expect(params.x).toBeLessThan(3);
+    expect(params.y).toBeLessThan(2);
+  });
+
+  test("favors the choices of the best trials", () => {
+    const sampler = new TPESampler({ seed: 0, n_startup_trials: 5 });
+    for (let i = 0; i < 20; i++) {
+      const x = i % 4;
+      sampler.tell({ x }, x === 2 ? 1 : 0);
+    }
+
+    const samples = Array.from(
+      { length: 10 },
+      () => sampler.sample({ x: 4 }).x
+    );
+    expect(samples.every((x) => x === 2)).toBe(true);
+  });
+});